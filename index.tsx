@@ -2,10 +2,34 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI } from "@google/genai";
+import { AiJob, AudioClip, CoachMessage, DiaryEntry, EntryDraft, EntryEmbedding, EntryRevision, Goal, Habit, Review } from "./types";
+import { escapeHtml } from "./utils/html";
+import { renderMarkdown } from "./utils/markdown";
+import { compareEntriesChronologically, formatDuration, formatEntryDate, formatTimestamp, toDateInputValue } from "./utils/dates";
+import { countEntriesByDate, findOnThisDay, renderCalendarHtml, shiftMonth } from "./views/calendar";
+import { EMPTY_FILTER, EntryFilter, applyFilter, collectFolders, collectTags, filterToQuery, hasStructuredFilters, normalizeTag, parseFilterQuery, renderFilterBarHtml } from "./views/filters";
+import { appendRevision, renderHistoryHtml } from "./views/history";
+import { calculateHabitStreak, describeHabitTarget, formatHabitsForPrompt, getHabitDates, getPeriodProgress, renderHabitHeatmapSvg } from "./views/habits";
+import { DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_OPTIONS, daysUntilPurge, findExpiredTrash } from "./views/trash";
+import { ReviewPeriod, formatReviewPeriod, getEntriesInPeriod, getReviewSourceHash, listReviewPeriods } from "./views/reviews";
+import { COMMON_EMOTIONS, InsightsPeriod, averageMoodByPeriod, calculateStreaks, countEmotions, getMoodLevel, renderMoodChartSvg } from "./views/insights";
+import { NEW_ENTRY_DRAFT_ID, StorageError, replaceDiary, changeEncryption, deleteDraft, deleteEntries, deleteGoals, deleteHabits, deleteJobs, getDraft, getEntryAudio, getEntryHistory, getLockConfig, loadDiary, putDraft, putEmbeddings, putEntries, putEntryAudio, putEntryHistory, putGoals, putHabits, putJobs, putReviews, setBlockedHandler, setEncryptionKey } from "./services/storage";
+import { LockConfig, WrongPassphraseError, createLock, unlock } from "./services/crypto";
+import { ImportError, ImportPreview, createJsonBundle, createMarkdownExport, createMarkdownZip, createPlainTextExport, mergeBundle, parseBundle, previewImport } from "./services/transfer";
+import { createSnippet, highlightMatches, parseSearchQuery } from "./services/search";
+import { LOCAL_EMBEDDING_MODEL, createLocalEmbedding, getEmbeddingText, hashContent, isEmbeddingCurrent, rankBySimilarity } from "./services/embeddings";
+import { COACH_TEMPLATE_VARIABLES, CoachingSettings, DEFAULT_COACH_TEMPLATE, DEFAULT_TITLE_TEMPLATE, PERSONAS, RESPONSE_LENGTHS, RESPONSE_STRUCTURES, TITLE_TEMPLATE_VARIABLES, describeCoachStyle, findUnknownVariables, getCoachStyle, getPersona, getResponseFormat, loadCoachingSettings, saveCoachingSettings } from "./services/prompts";
+import { JobQueue } from "./services/jobs";
+import { EntryDetails, EntryInput, EntryStore, parseEmotions } from "./services/entries";
+import { COACH_SUMMARY_EXCERPT_CHARS, CoachContext, buildCoachContext, buildCoachPrompt, estimateTokens, extractCommitments, formatCoachContextEntry, formatOpenGoals, getAiCoachSummary, regenerateTitle, streamCoachReply, suggestMood, suggestTags } from "./services/generation";
+import { JOURNAL_TEMPLATES, buildDailyPromptRequest, createTemplateContent, getJournalTemplate } from "./services/journaling";
+import { AiProvider, AiProviderId, AiSettings, DEFAULT_MODELS, createAiProvider, loadAiSettings, saveAiSettings } from "./services/ai";
+import { Transcriber, base64ToBlob, blobToBase64, createTranscriber } from "./services/transcription";
 
 // --- DOM Elements ---
 const headerTitle = document.querySelector('header h1') as HTMLElement;
+const offlineIndicator = document.getElementById('offline-indicator') as HTMLDivElement;
+const offlineIndicatorText = document.getElementById('offline-indicator-text') as HTMLSpanElement;
 const entriesContainer = document.getElementById('entries-container') as HTMLElement;
 const addEntryBtn = document.getElementById('add-entry-btn') as HTMLButtonElement;
 const modalOverlay = document.getElementById('modal-overlay') as HTMLDivElement;
@@ -14,41 +38,177 @@ const modalTitle = document.getElementById('modal-title') as HTMLHeadingElement;
 const entryForm = document.getElementById('entry-form') as HTMLFormElement;
 const entryTitle = document.getElementById('entry-title') as HTMLInputElement;
 const entryContent = document.getElementById('entry-content') as HTMLTextAreaElement;
+const entryDateInput = document.getElementById('entry-date') as HTMLInputElement;
+const writeTab = document.getElementById('write-tab') as HTMLButtonElement;
+const previewTab = document.getElementById('preview-tab') as HTMLButtonElement;
+const entryPreview = document.getElementById('entry-preview') as HTMLDivElement;
+const entryTemplateSelect = document.getElementById('entry-template') as HTMLSelectElement;
+const dailyPromptBtn = document.getElementById('daily-prompt-btn') as HTMLButtonElement;
+const dailyPromptCard = document.getElementById('daily-prompt') as HTMLDivElement;
+const recordBtn = document.getElementById('record-btn') as HTMLButtonElement;
+const recordBtnLabel = document.getElementById('record-btn-label') as HTMLSpanElement;
+const dictationBar = document.getElementById('dictation-bar') as HTMLDivElement;
+const dictationStatus = document.getElementById('dictation-status') as HTMLParagraphElement;
+const keepAudioCheckbox = document.getElementById('keep-audio') as HTMLInputElement;
+const modalAudioClipsList = document.getElementById('modal-audio-clips') as HTMLDivElement;
+const entryEmotions = document.getElementById('entry-emotions') as HTMLInputElement;
+const emotionChips = document.getElementById('emotion-chips') as HTMLDivElement;
+const suggestMoodBtn = document.getElementById('suggest-mood-btn') as HTMLButtonElement;
+const moodSuggestionNote = document.getElementById('mood-suggestion-note') as HTMLParagraphElement;
+const entryTagsList = document.getElementById('entry-tags') as HTMLDivElement;
+const entryTagInput = document.getElementById('entry-tag-input') as HTMLInputElement;
+const tagOptions = document.getElementById('tag-options') as HTMLDataListElement;
+const suggestTagsBtn = document.getElementById('suggest-tags-btn') as HTMLButtonElement;
+const tagSuggestionsList = document.getElementById('tag-suggestions') as HTMLDivElement;
+const entryFolder = document.getElementById('entry-folder') as HTMLInputElement;
+const habitField = document.getElementById('habit-field') as HTMLFieldSetElement;
+const habitChecklist = document.getElementById('habit-checklist') as HTMLDivElement;
+const draftNotice = document.getElementById('draft-notice') as HTMLDivElement;
+const draftNoticeText = document.getElementById('draft-notice-text') as HTMLSpanElement;
+const restoreDraftBtn = document.getElementById('restore-draft-btn') as HTMLButtonElement;
+const discardDraftBtn = document.getElementById('discard-draft-btn') as HTMLButtonElement;
+const historyPanel = document.getElementById('history-panel') as HTMLDetailsElement;
+const toast = document.getElementById('toast') as HTMLDivElement;
+const toastMessage = document.getElementById('toast-message') as HTMLSpanElement;
+const toastActionBtn = document.getElementById('toast-action') as HTMLButtonElement;
+const historyContent = document.getElementById('history-content') as HTMLDivElement;
+const folderOptions = document.getElementById('folder-options') as HTMLDataListElement;
 const cancelBtn = document.getElementById('cancel-btn') as HTMLButtonElement;
 const saveBtn = document.getElementById('save-btn') as HTMLButtonElement;
 const deleteBtn = document.getElementById('delete-btn') as HTMLButtonElement;
-const loaderOverlay = document.getElementById('loader-overlay') as HTMLDivElement;
 const navDiaryBtn = document.getElementById('nav-diary') as HTMLButtonElement;
 const navTrashBtn = document.getElementById('nav-trash') as HTMLButtonElement;
+const navGoalsBtn = document.getElementById('nav-goals') as HTMLButtonElement;
+const navHabitsBtn = document.getElementById('nav-habits') as HTMLButtonElement;
+const navCalendarBtn = document.getElementById('nav-calendar') as HTMLButtonElement;
+const navInsightsBtn = document.getElementById('nav-insights') as HTMLButtonElement;
+const navSettingsBtn = document.getElementById('nav-settings') as HTMLButtonElement;
 const searchForm = document.getElementById('search-form') as HTMLFormElement;
 const searchInput = document.getElementById('search-input') as HTMLInputElement;
+const lockScreen = document.getElementById('lock-screen') as HTMLDivElement;
+const unlockForm = document.getElementById('unlock-form') as HTMLFormElement;
+const unlockPassphrase = document.getElementById('unlock-passphrase') as HTMLInputElement;
+const unlockError = document.getElementById('unlock-error') as HTMLParagraphElement;
+const unlockBtn = document.getElementById('unlock-btn') as HTMLButtonElement;
 
 
 // --- App State ---
-interface DiaryEntry {
-    id: number;
-    date: string;
-    title: string;
-    content: string;
-    status: 'active' | 'trashed';
-    coachSummary?: string;
-}
-
-let entries: DiaryEntry[] = [];
+const entryStore = new EntryStore({
+    persist: changedEntries => {
+        putEntries(changedEntries).catch(handleStorageError);
+        refreshEmbeddings();
+    },
+    remove: ids => {
+        ids.forEach(id => embeddings.delete(id));
+        jobQueue.cancelForEntries(ids);
+        deleteEntries(ids).catch(handleStorageError);
+    },
+});
+let goals: Goal[] = [];
+let habits: Habit[] = [];
+let reviews: Review[] = [];
 let currentlyEditingEntryId: number | null = null;
-let currentView: 'diary' | 'trash' = 'diary';
-let searchQuery: string = '';
+let currentView: 'diary' | 'calendar' | 'on-this-day' | 'insights' | 'reviews' | 'trash' | 'goals' | 'habits' | 'settings' = 'diary';
+let activeFilter: EntryFilter = EMPTY_FILTER; // Mirrored in the URL hash, e.g. #diary?tags=work&mood=4
 let expandedEntryId: number | null = null;
+let calendarMonth: string = toDateInputValue(new Date()).slice(0, 7); // YYYY-MM shown in the calendar view
+let selectedCalendarDate: string | null = null; // YYYY-MM-DD whose entries are listed under the calendar
+let insightsPeriod: InsightsPeriod = 'week';
+let reviewsPeriod: Review['period'] = 'week';
+let generatingReviewStart: string | null = null; // Start date of the review being generated
+let moodSuggestion: { mood: number; emotions: string[] } | null = null; // Last AI suggestion shown in the modal
+let modalTags: string[] = []; // Tags of the entry being written or edited
+let modalTemplateId: string | undefined; // Journaling template of the entry being written or edited
+let modalPrompt: string | undefined; // Writing prompt the entry being written or edited answers
+let templateContent = ''; // What the last chosen template prefilled, to tell whether it has been written in
+let dailyPrompt: { date: string; text: string } | null = null; // Kept in memory only, since it quotes the diary
+let dailyPromptState: 'hidden' | 'loading' | 'shown' | 'error' = 'hidden';
+let modalAudioClips: AudioClip[] = []; // Voice clips of the entry being written or edited
+const pendingAudio = new Map<number, Blob>(); // Clips recorded in the modal and not saved yet, by clip ID
+const audioUrls = new Map<number, string>(); // Object URLs of clips ready to play, by clip ID
+let recording: { recorder: MediaRecorder; stream: MediaStream; chunks: Blob[]; startedAt: number; cursor: number; timer: number } | null = null;
+let isTranscribing: boolean = false;
+let keepAudioClips: boolean = localStorage.getItem('keepAudioClips') === 'true';
+let audioWrites: Promise<void> = Promise.resolve(); // Serializes the read-modify-write in saveEntryAudio
+let modalBaseline = { title: '', content: '' }; // What the modal opened with, to tell when there are unsaved changes
+let pendingDraft: EntryDraft | null = null; // A draft found when the modal opened, offered until restored, discarded or typed over
+let draftSaveTimer: number | undefined;
+let historyRevisions: EntryRevision[] = []; // History of the entry being edited, loaded when the panel opens
+let selectedRevisionId: number | null = null; // Null selects the newest revision
+let historyWrites: Promise<void> = Promise.resolve(); // Serializes the read-modify-write in recordRevision
+let searchDebounceTimer: number | undefined;
+let embeddings = new Map<number, EntryEmbedding>(); // By entry ID; refreshed in the background by refreshEmbeddings
+let isRefreshingEmbeddings: boolean = false;
+let useLocalEmbeddings: boolean = false; // Set when the provider can't embed, until the provider changes
+let askState: { question: string; answer: string; sourceIds: number[]; isLoading: boolean } | null = null; // "Ask my diary"
+const streamingTexts = new Map<number, string>(); // Text so far of coach responses streaming in, by entry ID
+let lockConfig: LockConfig | null = null; // Set when the diary is protected by a passphrase
+let isLocked: boolean = false;
+let autoLockMinutes: number = Number(localStorage.getItem('autoLockMinutes')) || 5;
+let autoLockTimer: number | undefined;
+let trashRetentionDays: number = Number(localStorage.getItem('trashRetentionDays') ?? DEFAULT_TRASH_RETENTION_DAYS);
+let selectedTrashIds = new Set<number>(); // Entries ticked in the trash view for a bulk action
+let toastTimer: number | undefined;
+let toastAction: (() => void) | null = null;
+let pendingImport: ImportPreview | null = null; // A validated backup waiting for the user to choose merge or replace
+
+const SEARCH_DEBOUNCE_MS = 200;
+const DAILY_PROMPT_RECENT_ENTRIES = 5;
+const DAILY_PROMPT_EXCERPT_CHARS = 600;
+const MAX_RECORDING_MS = 10 * 60 * 1000; // Keeps a clip small enough to send inline for transcription
+const RECORDING_MIME_TYPES = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/mp4']; // In order of preference
+const DRAFT_SAVE_DELAY_MS = 1000;
+const TOAST_DURATION_MS = 6000;
+
+// --- Related Entries & Questions ---
+const EMBEDDING_BATCH_SIZE = 16;
+const RELATED_ENTRIES_LIMIT = 3;
+const ASK_CONTEXT_TOKEN_BUDGET = 4000;
+const ASK_CONTEXT_MAX_ENTRIES = 8;
+
+// --- Reviews ---
+const REVIEW_CONTEXT_TOKEN_BUDGET = 12000;
+
+// --- AI Provider Initialization ---
+let aiSettings: AiSettings = loadAiSettings();
+let ai: AiProvider | null = null;
+let transcriber: Transcriber | null = null;
+let coachingSettings: CoachingSettings = loadCoachingSettings();
+const jobQueue = new JobQueue({
+    handlers: { title: runTitleJob, coach: runCoachJob },
+    persist: jobs => putJobs(jobs).catch(handleStorageError),
+    remove: ids => deleteJobs(ids).catch(handleStorageError),
+    onChange: handleJobsChanged,
+    isOnline: isAiReachable,
+});
+
+/**
+ * Whether AI requests can be attempted. The mock provider works offline; a local OpenAI-compatible
+ * server might too, but failures will say so.
+ * @returns {boolean} False while offline with a provider that needs the network.
+ */
+function isAiReachable(): boolean {
+    return navigator.onLine || aiSettings.provider === 'mock';
+}
 
-// --- Gemini AI Initialization ---
-let ai: GoogleGenAI;
-try {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} catch (error) {
-    console.error("Failed to initialize GoogleGenAI:", error);
-    showError("Could not initialize AI service. Please check your API key configuration.");
+/**
+ * (Re)creates the AI provider and transcriber from the current settings.
+ */
+function initAiProvider() {
+    useLocalEmbeddings = false;
+    try {
+        ai = createAiProvider(aiSettings);
+        transcriber = createTranscriber(aiSettings);
+    } catch (error) {
+        ai = null;
+        transcriber = null;
+        console.error("Failed to initialize AI provider:", error);
+        showError("Could not initialize AI service. Please check your AI settings.");
+    }
 }
 
+initAiProvider();
+
 
 // --- Functions ---
 
@@ -59,15 +219,36 @@ function renderApp() {
     // Update nav button states
     navDiaryBtn.classList.toggle('active', currentView === 'diary');
     navTrashBtn.classList.toggle('active', currentView === 'trash');
+    navGoalsBtn.classList.toggle('active', currentView === 'goals');
+    navHabitsBtn.classList.toggle('active', currentView === 'habits');
+    navCalendarBtn.classList.toggle('active', currentView === 'calendar' || currentView === 'on-this-day');
+    navInsightsBtn.classList.toggle('active', currentView === 'insights' || currentView === 'reviews');
+    navSettingsBtn.classList.toggle('active', currentView === 'settings');
     
-    // Show/hide FAB
-    addEntryBtn.classList.toggle('hidden', currentView !== 'diary');
+    // Show/hide FAB and search
+    addEntryBtn.classList.toggle('hidden', currentView !== 'diary' && currentView !== 'calendar');
+    searchForm.classList.toggle('hidden', currentView === 'settings' || currentView === 'reviews' || currentView === 'habits');
 
     if (currentView === 'diary') {
         renderDiaryPage();
+    } else if (currentView === 'calendar') {
+        renderCalendarPage();
+    } else if (currentView === 'on-this-day') {
+        renderOnThisDayPage();
+    } else if (currentView === 'insights') {
+        renderInsightsPage();
+    } else if (currentView === 'reviews') {
+        renderReviewsPage();
+    } else if (currentView === 'goals') {
+        renderGoalsPage();
+    } else if (currentView === 'habits') {
+        renderHabitsPage();
+    } else if (currentView === 'settings') {
+        renderSettingsPage();
     } else {
         renderTrashPage();
     }
+    fillAudioSources(entriesContainer);
 }
 
 /**
@@ -78,64 +259,597 @@ function renderDiaryPage() {
     headerTitle.textContent = "My Diary";
     entriesContainer.innerHTML = '';
     
-    let activeEntries = entries.filter(e => e.status === 'active');
-
-    if (searchQuery) {
+    if (activeFilter.text) {
         expandedEntryId = null; // Collapse all entries during search
-        const lowerCaseQuery = searchQuery.toLowerCase();
-        activeEntries = activeEntries.filter(entry =>
-            entry.title.toLowerCase().includes(lowerCaseQuery) ||
-            entry.content.toLowerCase().includes(lowerCaseQuery) ||
-            (entry.coachSummary && entry.coachSummary.toLowerCase().includes(lowerCaseQuery))
-        );
     }
+    const allActiveEntries = entryStore.entries.filter(e => e.status === 'active');
+    const activeEntries = applyFilter(allActiveEntries, activeFilter, entryStore.searchIndex);
     
-    activeEntries.sort((a, b) => b.id - a.id);
+    if (activeFilter.text) {
+        // Best matches first
+        const ranks = new Map(entryStore.searchIndex.search(activeFilter.text).map((result, rank) => [result.id, rank]));
+        activeEntries.sort((a, b) => (ranks.get(a.id) as number) - (ranks.get(b.id) as number));
+    } else {
+        activeEntries.sort((a, b) => compareEntriesChronologically(b, a));
+    }
+
+    if (allActiveEntries.length > 0) {
+        entriesContainer.innerHTML = renderAskDiaryHtml() +
+            renderFilterBarHtml(activeFilter, collectTags(allActiveEntries), collectFolders(allActiveEntries));
+    }
 
     if (activeEntries.length === 0) {
-        if (searchQuery) {
-            entriesContainer.innerHTML = `<p class="placeholder">No results found for "<strong>${searchQuery}</strong>".</p>`;
-        } else {
-            entriesContainer.innerHTML = `<p class="placeholder">Your diary is empty. Tap the '+' button to add your first entry!</p>`;
+        let message = `Your diary is empty. Tap the '+' button to add your first entry!`;
+        if (hasStructuredFilters(activeFilter)) {
+            message = `No entries match these filters.`;
+        } else if (activeFilter.text) {
+            message = `No results found for "<strong>${escapeHtml(activeFilter.text)}</strong>".`;
         }
+        entriesContainer.insertAdjacentHTML('beforeend', `<p class="placeholder">${message}</p>`);
         return;
     }
 
     activeEntries.forEach(entry => {
-        const isExpanded = entry.id === expandedEntryId && !searchQuery;
-        const entryElement = document.createElement('article');
-        entryElement.className = `diary-entry ${!isExpanded ? 'collapsed' : ''}`;
-        entryElement.setAttribute('data-id', entry.id.toString());
-        
-        const coachSummaryHtml = entry.coachSummary 
-            ? `<div class="ai-coach-summary"><strong>AI Coach:</strong> ${entry.coachSummary.replace(/\n/g, '<br>')}</div>` 
-            : '';
-        const coachButtonHtml = !entry.coachSummary 
-            ? `<button class="ai-coach-btn" data-id="${entry.id}">AI Coach</button>` 
-            : '';
+        entriesContainer.appendChild(createEntryElement(entry, entry.id === expandedEntryId && !activeFilter.text));
+    });
+}
 
-        entryElement.innerHTML = `
-            <div class="entry-header" role="button" tabindex="0" aria-expanded="${isExpanded}" aria-controls="entry-body-${entry.id}" data-id="${entry.id}">
-                <h3>${entry.title}</h3>
-                <p class="entry-date">${entry.date}</p>
+/**
+ * Builds the collapsible card for an active entry.
+ * @param {DiaryEntry} entry - The entry.
+ * @param {boolean} isExpanded - Whether the card body is shown.
+ * @returns {HTMLElement} The card.
+ */
+function createEntryElement(entry: DiaryEntry, isExpanded: boolean): HTMLElement {
+    const entryElement = document.createElement('article');
+    entryElement.className = `diary-entry ${!isExpanded ? 'collapsed' : ''}`;
+    entryElement.setAttribute('data-id', entry.id.toString());
+    
+    const isStreaming = streamingTexts.has(entry.id);
+    let coachSummaryHtml = '';
+    if (entry.coachSummary) {
+        coachSummaryHtml = `
+            <div class="ai-coach-summary"><strong>AI Coach:</strong>${entry.coachStyle ? `<span class="coach-style">${escapeHtml(describeCoachStyle(entry.coachStyle))}</span>` : ''}<div class="markdown">${renderMarkdown(entry.coachSummary)}</div>${renderCoachContextHtml(entry)}</div>
+            ${renderCoachThreadHtml(entry)}
+        `;
+    } else if (isStreaming) {
+        coachSummaryHtml = `<div class="ai-coach-summary"><strong>AI Coach:</strong><div class="coach-stream markdown" id="coach-stream-${entry.id}">${renderMarkdown(streamingTexts.get(entry.id) || '')}</div></div>`;
+    }
+    // While coaching is queued, its status shows in place of the button
+    const hasCoachJob = jobQueue.getJobsForEntry(entry.id).some(job => job.type === 'coach');
+    const coachButtonHtml = !entry.coachSummary && !hasCoachJob && !isStreaming
+        ? `<button class="ai-coach-btn" data-id="${entry.id}">AI Coach</button>`
+        : '';
+
+    const moodLevel = entry.mood ? getMoodLevel(entry.mood) : undefined;
+    const moodHtml = moodLevel ? `<span class="entry-mood" title="Mood: ${moodLevel.label}" aria-label="Mood: ${moodLevel.label}">${moodLevel.emoji}</span>` : '';
+    const emotionsHtml = entry.emotions && entry.emotions.length > 0
+        ? `<div class="entry-emotions">${entry.emotions.map(emotion => `<span class="emotion-chip">${escapeHtml(emotion)}</span>`).join('')}</div>`
+        : '';
+    const tagsHtml = (entry.tags && entry.tags.length > 0) || entry.folder
+        ? `<div class="entry-tags">
+            ${entry.folder ? `<button class="folder-chip" data-filter-folder="${escapeHtml(entry.folder)}"><span class="material-symbols-outlined">folder</span>${escapeHtml(entry.folder)}</button>` : ''}
+            ${(entry.tags || []).map(tag => `<button class="tag-chip" data-filter-tag="${escapeHtml(tag)}">#${escapeHtml(tag)}</button>`).join('')}
+        </div>`
+        : '';
+
+    const template = getJournalTemplate(entry.template);
+    const formatHtml = template || entry.prompt
+        ? `<div class="entry-format">
+            ${template ? `<span class="entry-template-label"><span class="material-symbols-outlined">description</span>${escapeHtml(template.label)}</span>` : ''}
+            ${entry.prompt ? `<p class="entry-prompt"><span class="material-symbols-outlined">lightbulb</span>${escapeHtml(entry.prompt)}</p>` : ''}
+        </div>`
+        : '';
+    // Recordings are only loaded once the card is opened
+    const audioHtml = isExpanded && entry.audioClips && entry.audioClips.length > 0
+        ? `<div class="audio-clips">${entry.audioClips.map(clip => renderAudioClipHtml(clip, entry.id)).join('')}</div>`
+        : '';
+
+    // While searching, highlight matches in the title and show where the query matched
+    let titleHtml = escapeHtml(entry.title);
+    let snippetHtml = '';
+    if (activeFilter.text) {
+        const clauses = parseSearchQuery(activeFilter.text);
+        titleHtml = highlightMatches(entry.title, clauses, 'title');
+        const snippet = createSnippet(entry.content, clauses, 'content') ||
+            createSnippet([entry.coachSummary || '', ...(entry.coachThread || []).map(message => message.text)].join(' '), clauses, 'coach');
+        if (snippet) snippetHtml = `<p class="search-snippet">${snippet}</p>`;
+    }
+
+    entryElement.innerHTML = `
+        <div class="entry-header" role="button" tabindex="0" aria-expanded="${isExpanded}" aria-controls="entry-body-${entry.id}" data-id="${entry.id}">
+            <h3>${moodHtml}${titleHtml}</h3>
+            ${renderEntryDateHtml(entry)}
+            ${snippetHtml}
+        </div>
+        ${renderJobStatusHtml(entry)}
+        <div class="entry-body" id="entry-body-${entry.id}">
+            ${tagsHtml}
+            ${emotionsHtml}
+            ${formatHtml}
+            <div class="entry-content markdown">${renderMarkdown(entry.content)}</div>
+            ${audioHtml}
+            ${isExpanded ? renderRelatedEntriesHtml(entry) : ''}
+            <div class="entry-footer">
+                ${coachSummaryHtml}
+                <div class="entry-actions">
+                    ${coachButtonHtml}
+                    <button class="edit-btn" data-id="${entry.id}">Edit</button>
+                </div>
             </div>
-            <div class="entry-body" id="entry-body-${entry.id}">
-                <p class="entry-content">${entry.content.replace(/\n/g, '<br>')}</p>
-                <div class="entry-footer">
-                    ${coachSummaryHtml}
-                    <div class="entry-actions">
-                        ${coachButtonHtml}
-                        <button class="edit-btn" data-id="${entry.id}">Edit</button>
-                    </div>
+        </div>
+    `;
+    
+    return entryElement;
+}
+
+/**
+ * Renders a player for a voice clip. Its audio is filled in by fillAudioSources.
+ * @param {AudioClip} clip - The clip.
+ * @param {number | null} entryId - The entry the clip is stored with, or null if it isn't saved yet.
+ * @param {string} [actionsHtml] - Buttons to show beside the player.
+ * @returns {string} The HTML for the clip.
+ */
+function renderAudioClipHtml(clip: AudioClip, entryId: number | null, actionsHtml: string = ''): string {
+    return `
+        <div class="audio-clip">
+            <span class="material-symbols-outlined">graphic_eq</span>
+            <div class="audio-clip-body">
+                <span class="audio-clip-label">Voice note · ${formatDuration(clip.durationMs)} · ${formatTimestamp(clip.recordedAt)}</span>
+                <audio controls preload="metadata" data-clip-id="${clip.id}" data-entry-id="${entryId ?? ''}"></audio>
+            </div>
+            ${actionsHtml}
+        </div>
+    `;
+}
+
+/**
+ * Points the clip players in a container at their audio, loading it from storage the first time
+ * an entry's clips are played.
+ * @param {HTMLElement} container - The element holding the players.
+ */
+function fillAudioSources(container: HTMLElement) {
+    const players = [...container.querySelectorAll<HTMLAudioElement>('audio[data-clip-id]:not([src])')];
+    const fill = () => players.forEach(player => {
+        const url = audioUrls.get(Number(player.dataset.clipId));
+        if (url && !player.src) player.src = url;
+    });
+    fill();
+    const entryIds = new Set(players
+        .filter(player => !player.src && player.dataset.entryId)
+        .map(player => Number(player.dataset.entryId)));
+    entryIds.forEach(entryId => {
+        loadAudioUrls(entryId).then(fill).catch(error => console.error("Failed to load recordings:", error));
+    });
+}
+
+/**
+ * Reads an entry's recorded audio from storage and makes each clip playable.
+ * @param {number} entryId - The entry's ID.
+ */
+async function loadAudioUrls(entryId: number) {
+    const stored = await getEntryAudio(entryId);
+    const entry = entryStore.find(entryId);
+    stored.forEach(({ id, data }) => {
+        if (audioUrls.has(id)) return;
+        const clip = entry?.audioClips?.find(c => c.id === id);
+        audioUrls.set(id, URL.createObjectURL(base64ToBlob(data, clip?.mimeType || 'audio/webm')));
+    });
+}
+
+/**
+ * Forgets the playable audio of clips, e.g. when the diary locks.
+ * @param {number[]} [clipIds] - The clips, or all of them if omitted.
+ */
+function revokeAudioUrls(clipIds: number[] = [...audioUrls.keys()]) {
+    clipIds.forEach(id => {
+        const url = audioUrls.get(id);
+        if (url) URL.revokeObjectURL(url);
+        audioUrls.delete(id);
+    });
+}
+
+/**
+ * Renders the status of an entry's background AI jobs, with a retry button once one has failed.
+ * @param {DiaryEntry} entry - The entry.
+ * @returns {string} The HTML, empty when nothing is queued.
+ */
+function renderJobStatusHtml(entry: DiaryEntry): string {
+    const jobs = jobQueue.getJobsForEntry(entry.id);
+    if (jobs.length === 0) return '';
+    const isOnline = isAiReachable();
+    const names: Record<AiJob['type'], string> = { title: 'Title', coach: 'Coaching' };
+    const jobsHtml = jobs.map(job => {
+        let text: string;
+        let canRetry = false;
+        if (job.status === 'running') {
+            text = job.type === 'title' ? 'Writing a title…' : 'Coaching…';
+        } else if (job.status === 'failed') {
+            text = `${names[job.type]} failed${job.lastError ? `: ${job.lastError}` : ''}`;
+            canRetry = true;
+        } else if (!isOnline) {
+            text = `${names[job.type]} waiting for a connection`;
+        } else if (job.attempts > 0) {
+            text = `${names[job.type]} failed, retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString(undefined, { timeStyle: 'short' })}`;
+            canRetry = true;
+        } else {
+            text = `${names[job.type]} queued`;
+        }
+        return `
+            <span class="job-status job-status-${job.status}" ${job.lastError ? `title="${escapeHtml(job.lastError)}"` : ''}>
+                <span class="material-symbols-outlined">${job.status === 'running' ? 'progress_activity' : job.status === 'failed' ? 'error' : 'schedule'}</span>
+                ${escapeHtml(text)}
+                ${canRetry ? `<button class="retry-job-btn" data-job-id="${job.id}">Retry now</button>` : ''}
+            </span>
+        `;
+    }).join('');
+    return `<div class="entry-jobs" role="status">${jobsHtml}</div>`;
+}
+
+/**
+ * Renders the "Related entries" list for an expanded entry: the active entries with the most similar embeddings.
+ * The wrapper is rendered even when empty so refreshEmbeddings can fill it in once the embedding is ready.
+ * @param {DiaryEntry} entry - The entry.
+ * @returns {string} The HTML for the section.
+ */
+function renderRelatedEntriesHtml(entry: DiaryEntry): string {
+    const embedding = embeddings.get(entry.id);
+    let listHtml = '';
+    if (embedding) {
+        const candidates = entryStore.entries.filter(e => e.status === 'active' && e.id !== entry.id);
+        const related = rankBySimilarity(embedding.vector, embedding.model, candidates, embeddings)
+            .filter(result => result.score > 0)
+            .slice(0, RELATED_ENTRIES_LIMIT);
+        if (related.length > 0) {
+            listHtml = `
+                <h4>Related entries</h4>
+                <ul>
+                    ${related.map(({ entry: relatedEntry }) => `
+                        <li>
+                            <button class="related-entry-link" data-id="${relatedEntry.id}">${escapeHtml(relatedEntry.title)}</button>
+                            <span class="related-entry-date">${formatEntryDate(relatedEntry.entryDate)}</span>
+                        </li>
+                    `).join('')}
+                </ul>
+            `;
+        }
+    }
+    return `<div class="related-entries" data-related-id="${entry.id}">${listHtml}</div>`;
+}
+
+/**
+ * Re-renders the "Related entries" sections currently on screen, after embeddings change.
+ */
+function updateRelatedEntries() {
+    entriesContainer.querySelectorAll<HTMLElement>('.related-entries').forEach(section => {
+        const entry = entryStore.find(Number(section.dataset.relatedId));
+        if (entry) section.outerHTML = renderRelatedEntriesHtml(entry);
+    });
+}
+
+/**
+ * Renders the "Ask my diary" box, with the latest answer and the entries it cites.
+ * @returns {string} The HTML for the box.
+ */
+function renderAskDiaryHtml(): string {
+    let answerHtml = '';
+    if (askState?.isLoading) {
+        answerHtml = `<p class="ask-answer ask-loading">Looking through your diary...</p>`;
+    } else if (askState) {
+        const sources = askState.sourceIds
+            .map(id => entryStore.find(id))
+            .filter((entry): entry is DiaryEntry => !!entry);
+        // Turn [#id] citations into links, but only for entries the model was actually given
+        const answer = escapeHtml(askState.answer)
+            .replace(/\[#?(\d+)\]/g, (citation, id) => {
+                const entry = sources.find(e => e.id === Number(id));
+                return entry ? `<button class="related-entry-link ask-citation" data-id="${entry.id}" title="${escapeHtml(entry.title)}">${formatEntryDate(entry.entryDate)}</button>` : citation;
+            })
+            .replace(/\n/g, '<br>');
+        answerHtml = `
+            <div class="ask-answer">
+                <p>${answer}</p>
+                ${sources.length > 0 ? `
+                    <details class="ask-sources">
+                        <summary>Searched ${sources.length} ${sources.length === 1 ? 'entry' : 'entries'}</summary>
+                        <ul>${sources.map(entry => `<li><button class="related-entry-link" data-id="${entry.id}">${escapeHtml(entry.title)}</button> <span class="related-entry-date">${formatEntryDate(entry.entryDate)}</span></li>`).join('')}</ul>
+                    </details>
+                ` : ''}
+                <button type="button" class="ask-clear-btn" id="ask-clear-btn">Clear</button>
+            </div>
+        `;
+    }
+    return `
+        <section class="ask-diary" aria-label="Ask my diary">
+            <form id="ask-form" class="ask-form">
+                <span class="material-symbols-outlined">forum</span>
+                <input type="text" id="ask-input" name="question" required placeholder="Ask your diary, e.g. When did I last feel anxious about work?" value="${escapeHtml(askState?.question || '')}">
+                <button type="submit" ${askState?.isLoading ? 'disabled' : ''}>Ask</button>
+            </form>
+            ${answerHtml}
+        </section>
+    `;
+}
+
+/**
+ * Renders the Insights page: mood trend chart, journaling streaks and most common emotions.
+ */
+function renderInsightsPage() {
+    if (!entriesContainer) return;
+    headerTitle.textContent = "Insights";
+
+    const activeEntries = applyFilter(entryStore.entries.filter(e => e.status === 'active'), activeFilter, entryStore.searchIndex);
+    const moodEntries = activeEntries.filter(e => e.mood);
+    const streaks = calculateStreaks(activeEntries, new Date());
+    const averageMood = moodEntries.reduce((sum, e) => sum + (e.mood as number), 0) / (moodEntries.length || 1);
+    const averageLevel = getMoodLevel(averageMood);
+    const averages = averageMoodByPeriod(moodEntries, insightsPeriod);
+    const topEmotions = countEmotions(activeEntries, 8);
+    const maxEmotionCount = topEmotions[0]?.count || 1;
+
+    const chartHtml = averages.length > 0
+        ? renderMoodChartSvg(averages)
+        : `<p class="placeholder">Pick a mood when you write an entry to see how it changes over time.</p>`;
+    const emotionsHtml = topEmotions.length > 0
+        ? `<ul class="emotion-bars">${topEmotions.map(({ emotion, count }) => `
+            <li>
+                <span class="emotion-bar-label">${escapeHtml(emotion)}</span>
+                <span class="emotion-bar"><span style="width: ${(count / maxEmotionCount) * 100}%"></span></span>
+                <span class="emotion-bar-count">${count}</span>
+            </li>
+        `).join('')}</ul>`
+        : `<p class="placeholder">No emotions tagged yet.</p>`;
+
+    entriesContainer.innerHTML = renderInsightsTabsHtml() + `
+        ${activeFilter.text ? `<p class="insights-filter-note">Showing insights for entries matching "<strong>${escapeHtml(activeFilter.text)}</strong>".</p>` : ''}
+        <div class="insights-stats">
+            <div class="insights-stat">
+                <span class="insights-stat-value">${moodEntries.length > 0 && averageLevel ? `${averageLevel.emoji} ${averageMood.toFixed(1)}` : '–'}</span>
+                <span class="insights-stat-label">Average mood</span>
+            </div>
+            <div class="insights-stat">
+                <span class="insights-stat-value">${streaks.current}</span>
+                <span class="insights-stat-label">Current streak (days)</span>
+            </div>
+            <div class="insights-stat">
+                <span class="insights-stat-value">${streaks.longest}</span>
+                <span class="insights-stat-label">Longest streak (days)</span>
+            </div>
+        </div>
+        <section class="insights-card">
+            <div class="insights-card-header">
+                <h2>Mood over time</h2>
+                <div class="insights-period" role="group" aria-label="Average by">
+                    <button class="insights-period-btn ${insightsPeriod === 'week' ? 'active' : ''}" data-insights-period="week">Weekly</button>
+                    <button class="insights-period-btn ${insightsPeriod === 'month' ? 'active' : ''}" data-insights-period="month">Monthly</button>
+                </div>
+            </div>
+            ${chartHtml}
+        </section>
+        <section class="insights-card">
+            <h2>Most common emotions</h2>
+            ${emotionsHtml}
+        </section>
+    `;
+}
+
+/**
+ * Renders the tabs that switch between the mood trends and the periodic reviews.
+ * @returns {string} The HTML for the tabs.
+ */
+function renderInsightsTabsHtml(): string {
+    return `
+        <nav class="view-tabs" aria-label="Insights views">
+            <a href="#insights" class="view-tab ${currentView === 'insights' ? 'active' : ''}">Trends</a>
+            <a href="#reviews" class="view-tab ${currentView === 'reviews' ? 'active' : ''}">Reviews</a>
+        </nav>
+    `;
+}
+
+/**
+ * Renders the weekly or monthly reviews: one card per period with entries, with its review if one
+ * has been generated, and a prompt to regenerate it if the period's entries have changed since.
+ */
+function renderReviewsPage() {
+    if (!entriesContainer) return;
+    headerTitle.textContent = "Reviews";
+
+    const periods = listReviewPeriods(entryStore.entries, reviewsPeriod);
+    entriesContainer.innerHTML = renderInsightsTabsHtml() + `
+        <div class="insights-period reviews-period" role="group" aria-label="Review period">
+            <button class="insights-period-btn ${reviewsPeriod === 'week' ? 'active' : ''}" data-reviews-period="week">Weekly</button>
+            <button class="insights-period-btn ${reviewsPeriod === 'month' ? 'active' : ''}" data-reviews-period="month">Monthly</button>
+        </div>
+    `;
+
+    if (periods.length === 0) {
+        entriesContainer.insertAdjacentHTML('beforeend', `<p class="placeholder">Write a few entries and come back for a ${reviewsPeriod === 'week' ? 'weekly' : 'monthly'} review.</p>`);
+        return;
+    }
+
+    periods.forEach(reviewPeriod => {
+        const periodEntries = getEntriesInPeriod(entryStore.entries, reviewPeriod);
+        const review = findReview(reviewPeriod);
+        const isStale = !!review && review.sourceHash !== getReviewSourceHash(periodEntries);
+        const isGenerating = generatingReviewStart === reviewPeriod.start;
+        const buttonLabel = isGenerating ? 'Generating...' : review ? 'Regenerate' : 'Generate review';
+
+        const card = document.createElement('article');
+        card.className = 'review-card';
+        card.innerHTML = `
+            <div class="review-header">
+                <div>
+                    <h3>${formatReviewPeriod(reviewPeriod)}</h3>
+                    <span class="review-meta">${periodEntries.length} ${periodEntries.length === 1 ? 'entry' : 'entries'}${review ? ` · Reviewed ${formatTimestamp(review.createdAt)}` : ''}</span>
                 </div>
+                <button class="review-generate-btn" data-review-start="${reviewPeriod.start}" ${generatingReviewStart ? 'disabled' : ''}>${buttonLabel}</button>
             </div>
+            ${isStale ? `<p class="review-stale">Entries in this ${reviewPeriod.period} have changed since this review was written.</p>` : ''}
+            ${review ? `<div class="ai-coach-summary review-summary markdown">${renderMarkdown(review.summary)}</div>` : ''}
         `;
-        
-        entriesContainer.appendChild(entryElement);
+        entriesContainer.appendChild(card);
+    });
+}
+
+/**
+ * Renders the tabs that switch between the calendar's month and "on this day" views.
+ * @returns {string} The HTML for the tabs.
+ */
+function renderCalendarTabsHtml(): string {
+    return `
+        <nav class="view-tabs" aria-label="Calendar views">
+            <a href="#calendar" class="view-tab ${currentView === 'calendar' ? 'active' : ''}">Month</a>
+            <a href="#on-this-day" class="view-tab ${currentView === 'on-this-day' ? 'active' : ''}">On This Day</a>
+        </nav>
+    `;
+}
+
+/**
+ * Renders the month calendar, with the entries for the selected day below it.
+ */
+function renderCalendarPage() {
+    if (!entriesContainer) return;
+    headerTitle.textContent = "Calendar";
+
+    const matchingEntries = applyFilter(entryStore.entries.filter(e => e.status === 'active'), activeFilter, entryStore.searchIndex);
+    entriesContainer.innerHTML = renderCalendarTabsHtml() +
+        renderCalendarHtml(calendarMonth, countEntriesByDate(matchingEntries), selectedCalendarDate);
+
+    if (!selectedCalendarDate) {
+        entriesContainer.insertAdjacentHTML('beforeend', `<p class="placeholder">Select a day to see its entries.</p>`);
+        return;
+    }
+
+    const dayEntries = matchingEntries
+        .filter(e => e.entryDate === selectedCalendarDate)
+        .sort((a, b) => compareEntriesChronologically(b, a));
+    entriesContainer.insertAdjacentHTML('beforeend', `<h2 class="day-heading">${formatEntryDate(selectedCalendarDate)}</h2>`);
+
+    if (dayEntries.length === 0) {
+        const message = activeFilter.text
+            ? `No entries on this day match "<strong>${escapeHtml(activeFilter.text)}</strong>".`
+            : `No entries on this day. Tap the '+' button to write one.`;
+        entriesContainer.insertAdjacentHTML('beforeend', `<p class="placeholder">${message}</p>`);
+        return;
+    }
+    dayEntries.forEach(entry => {
+        entriesContainer.appendChild(createEntryElement(entry, entry.id === expandedEntryId));
+    });
+}
+
+/**
+ * Renders entries written on today's date in previous years.
+ */
+function renderOnThisDayPage() {
+    if (!entriesContainer) return;
+    headerTitle.textContent = "On This Day";
+
+    const today = new Date();
+    const currentYear = today.getFullYear();
+    const groups = findOnThisDay(applyFilter(entryStore.entries.filter(e => e.status === 'active'), activeFilter, entryStore.searchIndex), today);
+    entriesContainer.innerHTML = renderCalendarTabsHtml();
+
+    if (groups.length === 0) {
+        const message = activeFilter.text
+            ? `No entries from this day in earlier years match "<strong>${escapeHtml(activeFilter.text)}</strong>".`
+            : `No entries from ${today.toLocaleDateString(undefined, { month: 'long', day: 'numeric' })} in earlier years yet. Check back next year!`;
+        entriesContainer.insertAdjacentHTML('beforeend', `<p class="placeholder">${message}</p>`);
+        return;
+    }
+
+    groups.forEach(group => {
+        const yearsAgo = currentYear - group.year;
+        entriesContainer.insertAdjacentHTML('beforeend', `<h2 class="day-heading">${yearsAgo === 1 ? '1 year ago' : `${yearsAgo} years ago`} <span class="day-heading-year">${group.year}</span></h2>`);
+        group.entries
+            .sort((a, b) => compareEntriesChronologically(b, a))
+            .forEach(entry => entriesContainer.appendChild(createEntryElement(entry, entry.id === expandedEntryId)));
     });
 }
 
 
+/**
+ * Renders an entry's date in the user's locale, with when it was written and last edited on hover.
+ * @param {DiaryEntry} entry - The entry.
+ * @returns {string} The HTML for the date line.
+ */
+function renderEntryDateHtml(entry: DiaryEntry): string {
+    const written = `Written ${formatTimestamp(entry.createdAt)}`;
+    const edited = entry.updatedAt !== entry.createdAt ? ` · Edited ${formatTimestamp(entry.updatedAt)}` : '';
+    return `<p class="entry-date"><time datetime="${entry.entryDate}" title="${written}${edited}">${formatEntryDate(entry.entryDate)}</time></p>`;
+}
+
+/**
+ * Renders the list of earlier entries the coach looked at for an entry's summary.
+ * @param {DiaryEntry} entry - The coached entry.
+ * @returns {string} The HTML for the context list, or an empty string for summaries made before context was tracked.
+ */
+function renderCoachContextHtml(entry: DiaryEntry): string {
+    if (!entry.coachContextIds) return '';
+    if (entry.coachContextIds.length === 0) {
+        return `<p class="coach-context-empty">No earlier entries were available to compare against.</p>`;
+    }
+
+    const items = entry.coachContextIds.map(id => {
+        const contextEntry = entryStore.find(id);
+        if (!contextEntry) {
+            return `<li class="coach-context-missing">A deleted entry</li>`;
+        }
+        const label = escapeHtml(contextEntry.status === 'trashed' ? `${contextEntry.title} (in trash)` : contextEntry.title);
+        return `<li><button class="coach-context-link" data-id="${contextEntry.id}">${label}</button> <span class="entry-date">${formatEntryDate(contextEntry.entryDate)}</span></li>`;
+    }).join('');
+
+    const count = entry.coachContextIds.length;
+    return `
+        <details class="coach-context">
+            <summary>Based on ${count} earlier ${count === 1 ? 'entry' : 'entries'}</summary>
+            <ul>${items}</ul>
+        </details>
+    `;
+}
+
+
+/**
+ * Renders the follow-up conversation with the coach for an entry, plus the reply box.
+ * @param {DiaryEntry} entry - The coached entry.
+ * @returns {string} The HTML for the thread.
+ */
+function renderCoachThreadHtml(entry: DiaryEntry): string {
+    const isStreaming = streamingTexts.has(entry.id);
+    const messagesHtml = (entry.coachThread || []).map(message => `
+        <div class="coach-message coach-message-${message.role}">
+            <strong>${message.role === 'coach' ? 'AI Coach' : 'You'}:</strong><div class="markdown">${renderMarkdown(message.text)}</div>
+        </div>
+    `).join('');
+    const streamingHtml = isStreaming
+        ? `<div class="coach-message coach-message-coach"><strong>AI Coach:</strong><div class="coach-stream markdown" id="coach-stream-${entry.id}">${renderMarkdown(streamingTexts.get(entry.id) || '')}</div></div>`
+        : '';
+
+    return `
+        <div class="coach-thread">
+            ${messagesHtml}
+            ${streamingHtml}
+            <form class="coach-reply-form" data-id="${entry.id}">
+                <textarea class="coach-reply-input" rows="2" placeholder="Reply to your coach..." aria-label="Reply to your coach" ${isStreaming ? 'disabled' : ''}></textarea>
+                <button type="submit" class="coach-reply-btn" ${isStreaming ? 'disabled' : ''}>${isStreaming ? 'Thinking...' : 'Send'}</button>
+            </form>
+        </div>
+    `;
+}
+
+/**
+ * Updates the in-progress coach message in place as streamed text arrives, without re-rendering the list.
+ * @param {number} id - The ID of the entry being coached.
+ * @param {string} text - The text received so far.
+ */
+function updateCoachStream(id: number, text: string) {
+    streamingTexts.set(id, text);
+    const streamElement = document.getElementById(`coach-stream-${id}`);
+    if (streamElement) {
+        streamElement.innerHTML = renderMarkdown(text);
+    }
+}
+
+
 /**
  * Renders the trash page with deleted entries.
  */
@@ -144,359 +858,2284 @@ function renderTrashPage() {
     headerTitle.textContent = "Trash";
     entriesContainer.innerHTML = '';
     
-    let trashedEntries = entries.filter(e => e.status === 'trashed');
-
-    if (searchQuery) {
-        const lowerCaseQuery = searchQuery.toLowerCase();
-        trashedEntries = trashedEntries.filter(entry =>
-            entry.title.toLowerCase().includes(lowerCaseQuery) ||
-            entry.content.toLowerCase().includes(lowerCaseQuery) ||
-            (entry.coachSummary && entry.coachSummary.toLowerCase().includes(lowerCaseQuery))
-        );
-    }
+    const allTrashedEntries = entryStore.entries.filter(e => e.status === 'trashed');
+    const trashedEntries = applyFilter(allTrashedEntries, activeFilter, entryStore.searchIndex);
     
-    trashedEntries.sort((a, b) => b.id - a.id);
+    trashedEntries.sort((a, b) => compareEntriesChronologically(b, a));
+    // Forget selections that are no longer shown
+    selectedTrashIds = new Set(trashedEntries.map(e => e.id).filter(id => selectedTrashIds.has(id)));
+
+    const retentionOptions = TRASH_RETENTION_OPTIONS.map(days => `<option value="${days}" ${days === trashRetentionDays ? 'selected' : ''}>${days === 0 ? 'Never' : `After ${days} days`}</option>`).join('');
+    const toolbar = document.createElement('div');
+    toolbar.className = 'trash-toolbar';
+    toolbar.innerHTML = `
+        <label class="trash-retention">
+            Delete trashed entries automatically
+            <select id="trash-retention">${retentionOptions}</select>
+        </label>
+        ${trashedEntries.length > 0 ? `
+            <div class="trash-bulk-actions">
+                <label class="trash-select-all">
+                    <input type="checkbox" id="trash-select-all" ${selectedTrashIds.size === trashedEntries.length ? 'checked' : ''}>
+                    ${selectedTrashIds.size > 0 ? `${selectedTrashIds.size} selected` : 'Select all'}
+                </label>
+                <button class="trash-bulk-btn" data-trash-action="restore" ${selectedTrashIds.size === 0 ? 'disabled' : ''}>Restore</button>
+                <button class="trash-bulk-btn" data-trash-action="delete" ${selectedTrashIds.size === 0 ? 'disabled' : ''}>Delete Permanently</button>
+                <button class="trash-bulk-btn" data-trash-action="empty">Empty Trash</button>
+            </div>
+        ` : ''}
+    `;
+    entriesContainer.appendChild(toolbar);
 
     if (trashedEntries.length === 0) {
-        if (searchQuery) {
-            entriesContainer.innerHTML = `<p class="placeholder">No results found in trash for "<strong>${searchQuery}</strong>".</p>`;
+        const placeholder = document.createElement('p');
+        placeholder.className = 'placeholder';
+        placeholder.innerHTML = activeFilter.text
+            ? `No results found in trash for "<strong>${escapeHtml(activeFilter.text)}</strong>".`
+            : allTrashedEntries.length > 0 ? 'No trashed entries match these filters.' : 'Your trash is empty.';
+        entriesContainer.appendChild(placeholder);
+        return;
+    }
+
+    const now = Date.now();
+    trashedEntries.forEach(entry => {
+        const daysLeft = daysUntilPurge(entry, trashRetentionDays, now);
+        const purgeHtml = daysLeft === null ? ''
+            : `<p class="trash-purge-note">${daysLeft === 0 ? 'Will be deleted today' : `Will be deleted in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`}</p>`;
+        const entryElement = document.createElement('article');
+        entryElement.className = `diary-entry trashed-entry ${selectedTrashIds.has(entry.id) ? 'selected' : ''}`;
+        entryElement.setAttribute('data-id', entry.id.toString());
+        entryElement.innerHTML = `
+            <div class="trashed-entry-header">
+                <input type="checkbox" class="trash-select" data-trash-id="${entry.id}" aria-label="Select ${escapeHtml(entry.title)}" ${selectedTrashIds.has(entry.id) ? 'checked' : ''}>
+                <h3>${escapeHtml(entry.title)}</h3>
+            </div>
+            ${renderEntryDateHtml(entry)}
+            ${purgeHtml}
+            <div class="markdown">${renderMarkdown(entry.content)}</div>
+            <div class="trashed-entry-actions">
+                <button class="restore-btn" data-id="${entry.id}">Restore</button>
+                <button class="delete-perm-btn" data-id="${entry.id}">Delete Permanently</button>
+            </div>
+        `;
+        entriesContainer.appendChild(entryElement);
+    });
+}
+
+
+/**
+ * Renders the goals page with commitments extracted from coaching, open ones first.
+ */
+function renderGoalsPage() {
+    if (!entriesContainer) return;
+    headerTitle.textContent = "Goals";
+    entriesContainer.innerHTML = '';
+
+    let visibleGoals = [...goals];
+
+    if (activeFilter.text) {
+        const lowerCaseQuery = activeFilter.text.toLowerCase();
+        visibleGoals = visibleGoals.filter(goal => goal.text.toLowerCase().includes(lowerCaseQuery));
+    }
+
+    if (visibleGoals.length === 0) {
+        if (activeFilter.text) {
+            entriesContainer.innerHTML = `<p class="placeholder">No goals found for "<strong>${escapeHtml(activeFilter.text)}</strong>".</p>`;
         } else {
-            entriesContainer.innerHTML = `<p class="placeholder">Your trash is empty.</p>`;
+            entriesContainer.innerHTML = `<p class="placeholder">No goals yet. Ask the AI Coach about an entry and any commitments it recommends will show up here.</p>`;
+        }
+        return;
+    }
+
+    const statusOrder = { open: 0, done: 1, dropped: 2 };
+    visibleGoals.sort((a, b) =>
+        statusOrder[a.status] - statusOrder[b.status] ||
+        (a.dueDate || '9999-12-31').localeCompare(b.dueDate || '9999-12-31') ||
+        b.createdAt - a.createdAt
+    );
+
+    const today = toDateInputValue(new Date());
+
+    visibleGoals.forEach(goal => {
+        const origin = entryStore.find(goal.originEntryId);
+        const isOverdue = goal.status === 'open' && !!goal.dueDate && goal.dueDate < today;
+        const originHtml = origin
+            ? `From <button class="coach-context-link" data-id="${origin.id}">${escapeHtml(origin.title)}</button>`
+            : 'From a deleted entry';
+        const actionsHtml = goal.status === 'open'
+            ? `<button class="goal-done-btn" data-goal-id="${goal.id}">Mark Done</button>
+               <button class="goal-drop-btn" data-goal-id="${goal.id}">Drop</button>`
+            : `<button class="goal-reopen-btn" data-goal-id="${goal.id}">Reopen</button>`;
+
+        const goalElement = document.createElement('article');
+        goalElement.className = `diary-entry goal-item goal-${goal.status} ${isOverdue ? 'goal-overdue' : ''}`;
+        goalElement.setAttribute('data-goal-id', goal.id.toString());
+        goalElement.innerHTML = `
+            <p class="goal-text">${escapeHtml(goal.text)}</p>
+            <div class="goal-meta">
+                <span class="goal-origin">${originHtml}</span>
+                <label class="goal-due">
+                    Due
+                    <input type="date" class="goal-due-input" data-goal-id="${goal.id}" value="${goal.dueDate || ''}" ${goal.status !== 'open' ? 'disabled' : ''}>
+                </label>
+                ${goal.status !== 'open' ? `<span class="goal-status">${goal.status === 'done' ? 'Done' : 'Dropped'}</span>` : ''}
+            </div>
+            <div class="goal-actions">${actionsHtml}</div>
+        `;
+        entriesContainer.appendChild(goalElement);
+    });
+}
+
+/**
+ * Renders the habits page: a form to add a habit, then each habit's streaks, progress in the
+ * current day or week, and a heatmap of recent check-offs. Archived habits come last.
+ */
+function renderHabitsPage() {
+    if (!entriesContainer) return;
+    headerTitle.textContent = "Habits";
+
+    const today = toDateInputValue(new Date());
+    const frequencyOptions = [
+        `<option value="daily">Daily</option>`,
+        ...[1, 2, 3, 4, 5, 6].map(target => `<option value="weekly-${target}">${describeHabitTarget({ frequency: 'weekly', target } as Habit)}</option>`),
+    ].join('');
+    const formHtml = `
+        <form id="habit-form" class="insights-card habit-form">
+            <h2>New habit</h2>
+            <div class="habit-form-fields">
+                <input type="text" name="name" required maxlength="80" placeholder="e.g. Meditate for 10 minutes" aria-label="Habit">
+                <select name="frequency" aria-label="How often">${frequencyOptions}</select>
+                <button type="submit">Add</button>
+            </div>
+            <p class="settings-hint">Tick habits off in the entry editor when you write about your day.</p>
+        </form>
+    `;
+
+    const sortedHabits = [...habits].sort((a, b) => Number(!!a.archived) - Number(!!b.archived) || a.createdAt - b.createdAt);
+    const habitsHtml = sortedHabits.map(habit => {
+        const dates = getHabitDates(habit, entryStore.entries);
+        const streak = calculateHabitStreak(habit, dates, today);
+        const progress = getPeriodProgress(habit, dates, today);
+        const unit = habit.frequency === 'daily' ? 'days' : 'weeks';
+        const progressText = habit.frequency === 'daily'
+            ? (progress.done ? 'Done today' : 'Not done yet today')
+            : `${progress.done} of ${progress.target} this week`;
+        return `
+            <section class="insights-card habit-card ${habit.archived ? 'habit-archived' : ''}">
+                <div class="insights-card-header">
+                    <div>
+                        <h2>${escapeHtml(habit.name)}</h2>
+                        <span class="habit-target">${describeHabitTarget(habit)}${habit.archived ? ' · Archived' : ''}</span>
+                    </div>
+                    <div class="habit-actions">
+                        <button class="habit-archive-btn" data-habit-id="${habit.id}">${habit.archived ? 'Unarchive' : 'Archive'}</button>
+                        <button class="habit-delete-btn" data-habit-id="${habit.id}">Delete</button>
+                    </div>
+                </div>
+                <div class="insights-stats">
+                    <div class="insights-stat">
+                        <span class="insights-stat-value">${streak.current}</span>
+                        <span class="insights-stat-label">Current streak (${unit})</span>
+                    </div>
+                    <div class="insights-stat">
+                        <span class="insights-stat-value">${streak.longest}</span>
+                        <span class="insights-stat-label">Longest streak (${unit})</span>
+                    </div>
+                    <div class="insights-stat ${progress.done >= progress.target ? 'habit-progress-met' : ''}">
+                        <span class="insights-stat-value">${progress.done >= progress.target ? '✓' : `${progress.done}/${progress.target}`}</span>
+                        <span class="insights-stat-label">${progressText}</span>
+                    </div>
+                </div>
+                ${renderHabitHeatmapSvg(habit, dates, today)}
+            </section>
+        `;
+    }).join('');
+
+    entriesContainer.innerHTML = formHtml + (habitsHtml || `<p class="placeholder">No habits yet. Add one above to start tracking it.</p>`);
+}
+
+/**
+ * Renders the settings page for choosing the AI provider, model and key.
+ */
+function renderSettingsPage() {
+    if (!entriesContainer) return;
+    headerTitle.textContent = "Settings";
+
+    const providerOptions: { id: AiProviderId; label: string }[] = [
+        { id: 'gemini', label: 'Google Gemini' },
+        { id: 'openai', label: 'OpenAI-compatible (OpenAI, Ollama, llama.cpp)' },
+        { id: 'mock', label: 'Offline mock (no network)' },
+    ];
+
+    entriesContainer.innerHTML = `
+        <form id="ai-settings-form" class="settings-card">
+            <h2>AI Provider</h2>
+            <label for="ai-provider">Provider</label>
+            <select id="ai-provider" name="provider">
+                ${providerOptions.map(option => `<option value="${option.id}" ${option.id === aiSettings.provider ? 'selected' : ''}>${option.label}</option>`).join('')}
+            </select>
+            <label for="ai-model">Model</label>
+            <input type="text" id="ai-model" name="model" value="${escapeHtml(aiSettings.model)}" placeholder="${DEFAULT_MODELS[aiSettings.provider]}">
+            <div class="settings-field ${aiSettings.provider === 'mock' ? 'hidden' : ''}" data-provider-field="key">
+                <label for="ai-api-key">API key</label>
+                <input type="password" id="ai-api-key" name="apiKey" value="${escapeHtml(aiSettings.apiKey)}" autocomplete="off" placeholder="${aiSettings.provider === 'openai' ? 'Optional for local servers' : ''}">
+            </div>
+            <div class="settings-field ${aiSettings.provider !== 'openai' ? 'hidden' : ''}" data-provider-field="base-url">
+                <label for="ai-base-url">Base URL</label>
+                <input type="text" id="ai-base-url" name="baseUrl" value="${escapeHtml(aiSettings.baseUrl)}">
+            </div>
+            <p class="settings-hint">Settings are stored in this browser only.</p>
+            <p id="ai-settings-status" class="settings-status" role="status"></p>
+            <div class="settings-actions">
+                <button type="button" id="ai-test-btn">Test Connection</button>
+                <button type="submit" id="ai-save-btn">Save</button>
+            </div>
+        </form>
+        ${renderCoachingSettingsHtml()}
+        ${renderLockSettingsHtml()}
+        ${renderTransferSettingsHtml()}
+    `;
+}
+
+/**
+ * Renders the settings card for the coaching persona, response format and prompt templates.
+ * @returns {string} The HTML for the card.
+ */
+function renderCoachingSettingsHtml(): string {
+    const hasCustomTemplates = !!(coachingSettings.coachTemplate || coachingSettings.titleTemplate);
+    const formatVariables = (names: string[]) => names.map(name => `<code>{{${name}}}</code>`).join(' ');
+    return `
+        <form id="coaching-settings-form" class="settings-card">
+            <h2>Coaching</h2>
+            <fieldset class="persona-options">
+                <legend>Persona</legend>
+                ${PERSONAS.map(persona => `
+                    <label class="persona-option">
+                        <input type="radio" name="persona" value="${persona.id}" ${persona.id === coachingSettings.persona ? 'checked' : ''}>
+                        <span><strong>${persona.label}</strong><span class="settings-hint">${persona.description}</span></span>
+                    </label>
+                `).join('')}
+            </fieldset>
+            <label for="coaching-structure">Response structure</label>
+            <select id="coaching-structure" name="structure">
+                ${RESPONSE_STRUCTURES.map(structure => `<option value="${structure.id}" ${structure.id === coachingSettings.structure ? 'selected' : ''}>${structure.label}</option>`).join('')}
+            </select>
+            <label for="coaching-length">Response length</label>
+            <select id="coaching-length" name="length">
+                ${RESPONSE_LENGTHS.map(length => `<option value="${length.id}" ${length.id === coachingSettings.length ? 'selected' : ''}>${length.label} (about ${length.words} words)</option>`).join('')}
+            </select>
+            <details class="prompt-templates" ${hasCustomTemplates ? 'open' : ''}>
+                <summary>Prompt templates</summary>
+                <label for="coach-template">Coaching prompt</label>
+                <textarea id="coach-template" name="coachTemplate" rows="12">${escapeHtml(coachingSettings.coachTemplate || DEFAULT_COACH_TEMPLATE)}</textarea>
+                <p class="settings-hint">Variables: ${formatVariables(COACH_TEMPLATE_VARIABLES)}</p>
+                <label for="title-template">Title prompt</label>
+                <textarea id="title-template" name="titleTemplate" rows="4">${escapeHtml(coachingSettings.titleTemplate || DEFAULT_TITLE_TEMPLATE)}</textarea>
+                <p class="settings-hint">Variables: ${formatVariables(TITLE_TEMPLATE_VARIABLES)}</p>
+                <button type="button" id="reset-templates-btn">Reset Templates</button>
+            </details>
+            <p id="coaching-settings-status" class="settings-status" role="status"></p>
+            <div class="settings-actions">
+                <button type="submit">Save</button>
+            </div>
+        </form>
+    `;
+}
+
+/**
+ * Renders the settings card for exporting and importing the diary.
+ * @returns {string} The HTML for the card.
+ */
+function renderTransferSettingsHtml(): string {
+    return `
+        <div id="transfer-settings" class="settings-card">
+            <h2>Backup &amp; Export</h2>
+            <p class="settings-hint">JSON backups include everything: trashed entries, coaching conversations and goals. Markdown and text exports include your active entries.</p>
+            <div class="settings-actions settings-actions-start">
+                <button type="button" class="export-btn" data-export="json">Export JSON</button>
+                <button type="button" class="export-btn" data-export="markdown">Export Markdown</button>
+                <button type="button" class="export-btn" data-export="markdown-zip">Export Markdown (.zip)</button>
+                <button type="button" class="export-btn" data-export="text">Export Text</button>
+            </div>
+            <label for="import-file" class="import-label">Import a JSON backup</label>
+            <input type="file" id="import-file" accept="application/json,.json">
+            <div id="import-preview">${renderImportPreviewHtml()}</div>
+        </div>
+    `;
+}
+
+/**
+ * Renders the summary of a pending import and the merge/replace choice.
+ * @returns {string} The HTML for the preview, or an empty string when nothing is pending.
+ */
+function renderImportPreviewHtml(): string {
+    if (!pendingImport) return '';
+    const { bundle, newEntryCount, duplicateIds, changedDuplicateIds } = pendingImport;
+    const duplicateText = duplicateIds.length > 0
+        ? ` ${duplicateIds.length} already ${duplicateIds.length === 1 ? 'exists' : 'exist'} in your diary${changedDuplicateIds.length > 0 ? ` (${changedDuplicateIds.length} with different content)` : ''}.`
+        : '';
+    return `
+        <form id="import-form">
+            <p class="import-summary">This backup has ${bundle.entries.length} ${bundle.entries.length === 1 ? 'entry' : 'entries'} and ${bundle.goals.length} ${bundle.goals.length === 1 ? 'goal' : 'goals'}. ${newEntryCount} ${newEntryCount === 1 ? 'entry is' : 'entries are'} new.${duplicateText}</p>
+            <label class="import-option">
+                <input type="radio" name="mode" value="merge" checked>
+                Merge: add new entries and goals, keep my versions of any duplicates
+            </label>
+            <label class="import-option">
+                <input type="radio" name="mode" value="replace">
+                Replace: delete my current diary and use the backup instead
+            </label>
+            <div class="settings-actions">
+                <button type="button" id="import-cancel-btn">Cancel</button>
+                <button type="submit">Import</button>
+            </div>
+        </form>
+    `;
+}
+
+/**
+ * Renders the settings card for the passphrase lock.
+ * @returns {string} The HTML for the card.
+ */
+function renderLockSettingsHtml(): string {
+    if (!lockConfig) {
+        return `
+            <form id="lock-settings-form" class="settings-card" data-action="enable">
+                <h2>Diary Lock</h2>
+                <p class="settings-hint">Encrypt your entries on this device with a passphrase. If you forget it, your entries cannot be recovered.</p>
+                <label for="lock-new-passphrase">New passphrase</label>
+                <input type="password" id="lock-new-passphrase" name="newPassphrase" autocomplete="new-password" minlength="8" required>
+                <label for="lock-confirm-passphrase">Confirm passphrase</label>
+                <input type="password" id="lock-confirm-passphrase" name="confirmPassphrase" autocomplete="new-password" minlength="8" required>
+                <p id="lock-settings-status" class="settings-status" role="status"></p>
+                <div class="settings-actions">
+                    <button type="submit">Enable Lock</button>
+                </div>
+            </form>
+        `;
+    }
+
+    const timeoutOptions = [1, 5, 15, 30, 60];
+    return `
+        <form id="lock-settings-form" class="settings-card" data-action="change">
+            <h2>Diary Lock</h2>
+            <p class="settings-hint">Your entries are encrypted with your passphrase.</p>
+            <label for="lock-timeout">Lock automatically after</label>
+            <select id="lock-timeout">
+                ${timeoutOptions.map(minutes => `<option value="${minutes}" ${minutes === autoLockMinutes ? 'selected' : ''}>${minutes} ${minutes === 1 ? 'minute' : 'minutes'} of inactivity</option>`).join('')}
+            </select>
+            <label for="lock-current-passphrase">Current passphrase</label>
+            <input type="password" id="lock-current-passphrase" name="currentPassphrase" autocomplete="current-password" required>
+            <label for="lock-new-passphrase">New passphrase</label>
+            <input type="password" id="lock-new-passphrase" name="newPassphrase" autocomplete="new-password" minlength="8">
+            <label for="lock-confirm-passphrase">Confirm new passphrase</label>
+            <input type="password" id="lock-confirm-passphrase" name="confirmPassphrase" autocomplete="new-password" minlength="8">
+            <p id="lock-settings-status" class="settings-status" role="status"></p>
+            <div class="settings-actions">
+                <button type="button" id="lock-now-btn">Lock Now</button>
+                <button type="button" id="lock-remove-btn">Remove Lock</button>
+                <button type="submit">Change Passphrase</button>
+            </div>
+        </form>
+    `;
+}
+
+/**
+ * Reads the AI settings currently entered on the settings page.
+ * @param {HTMLFormElement} form - The settings form.
+ * @returns {AiSettings} The settings.
+ */
+function readAiSettingsForm(form: HTMLFormElement): AiSettings {
+    const data = new FormData(form);
+    const provider = data.get('provider') as AiProviderId;
+    return {
+        provider,
+        model: String(data.get('model') || '').trim() || DEFAULT_MODELS[provider],
+        apiKey: String(data.get('apiKey') || '').trim(),
+        baseUrl: String(data.get('baseUrl') || '').trim(),
+    };
+}
+
+
+/**
+ * Loads entries and goals from the storage engine, importing legacy localStorage data on first run.
+ */
+async function loadDiaryData() {
+    try {
+        const diary = await loadDiary();
+        entryStore.load(diary.entries);
+        goals = diary.goals;
+        habits = diary.habits;
+        reviews = diary.reviews;
+        embeddings = new Map(diary.embeddings.map(embedding => [embedding.id, embedding]));
+        jobQueue.load(diary.jobs);
+    } catch (error) {
+        console.error("Failed to load diary:", error);
+        showError(error instanceof StorageError ? error.message : "Could not load your diary.");
+        entryStore.load([]);
+        goals = [];
+        habits = [];
+        reviews = [];
+        embeddings = new Map();
+    }
+    purgeExpiredTrash();
+    refreshEmbeddings();
+}
+
+/**
+ * Reports a failed write to the user. The in-memory state is kept so nothing on screen is lost.
+ * @param {unknown} error - The error from the storage engine.
+ */
+function handleStorageError(error: unknown) {
+    console.error("Failed to write to storage:", error);
+    showError(error instanceof StorageError ? error.message : "Could not save your changes.");
+}
+
+/**
+ * Adds a save of an entry to its revision history, in the background.
+ * @param {DiaryEntry | null} previous - The entry before the save, or null for a new entry.
+ * @param {DiaryEntry} saved - The entry after the save.
+ */
+function recordRevision(previous: DiaryEntry | null, saved: DiaryEntry) {
+    historyWrites = historyWrites
+        .then(async () => {
+            const revisions = appendRevision(await getEntryHistory(saved.id), previous, saved);
+            await putEntryHistory({ id: saved.id, revisions });
+        })
+        .catch(handleStorageError);
+}
+
+/**
+ * Stores the audio of an entry's clips in the background: new recordings are added, and clips no
+ * longer on the entry are deleted.
+ * @param {number} entryId - The entry's ID.
+ * @param {AudioClip[]} clips - The entry's clips after the save.
+ * @param {Map<number, Blob>} recorded - The audio of clips recorded since the last save, by clip ID.
+ */
+function saveEntryAudio(entryId: number, clips: AudioClip[], recorded: Map<number, Blob>) {
+    audioWrites = audioWrites
+        .then(async () => {
+            const kept = (await getEntryAudio(entryId)).filter(stored => clips.some(clip => clip.id === stored.id));
+            const added = await Promise.all(clips
+                .filter(clip => recorded.has(clip.id))
+                .map(async clip => ({ id: clip.id, data: await blobToBase64(recorded.get(clip.id) as Blob) })));
+            await putEntryAudio({ id: entryId, clips: [...kept, ...added] });
+        })
+        .catch(handleStorageError);
+}
+
+/**
+ * Persists the given goals.
+ * @param {...Goal} changedGoals - The goals that were created or modified.
+ */
+function saveGoals(...changedGoals: Goal[]) {
+    putGoals(changedGoals).catch(handleStorageError);
+}
+
+/**
+ * Permanently removes goals from storage.
+ * @param {number[]} ids - The IDs of the goals to remove.
+ */
+function removeGoals(ids: number[]) {
+    deleteGoals(ids).catch(handleStorageError);
+}
+
+/**
+ * Persists the given habits.
+ * @param {...Habit} changedHabits - The habits that were created or modified.
+ */
+function saveHabits(...changedHabits: Habit[]) {
+    putHabits(changedHabits).catch(handleStorageError);
+}
+
+/**
+ * Persists new or changed reviews.
+ * @param {Review[]} changedReviews - The reviews to write.
+ */
+function saveReviews(...changedReviews: Review[]) {
+    putReviews(changedReviews).catch(handleStorageError);
+}
+
+/**
+ * Toggles the visibility of the modal and prepares it for new or existing entry.
+ * @param {boolean} show - Whether to show or hide the modal.
+ */
+function toggleModal(show: boolean) {
+    if (!modalOverlay) return;
+    if (show) {
+        if (!entryDateInput.value) {
+            // New entries from the calendar default to the selected day
+            const defaultDate = currentView === 'calendar' && selectedCalendarDate ? selectedCalendarDate : toDateInputValue(new Date());
+            entryDateInput.value = defaultDate;
+        }
+        renderTagOptions();
+        renderHabitChecklist();
+        renderTemplateOptions();
+        // A prompt already suggested today is offered again for new entries
+        dailyPromptState = currentlyEditingEntryId === null && dailyPrompt?.date === toDateInputValue(new Date()) ? 'shown' : 'hidden';
+        renderDailyPrompt();
+        dictationBar.classList.toggle('hidden', !canRecordAudio());
+        recordBtn.classList.toggle('hidden', !canRecordAudio());
+        keepAudioCheckbox.checked = keepAudioClips;
+        renderModalAudioClips();
+        modalBaseline = { title: entryTitle.value, content: entryContent.value };
+        modalOverlay.classList.remove('hidden');
+        entryContent.focus();
+        offerDraft();
+    } else {
+        modalOverlay.classList.add('hidden');
+        window.clearTimeout(draftSaveTimer);
+        draftSaveTimer = undefined;
+        pendingDraft = null;
+        draftNotice.classList.add('hidden');
+        // Reset modal state
+        entryForm.reset();
+        setEditorTab('write');
+        moodSuggestion = null;
+        moodSuggestionNote.classList.add('hidden');
+        renderEmotionChips();
+        modalTags = [];
+        renderModalTags();
+        modalTemplateId = undefined;
+        modalPrompt = undefined;
+        templateContent = '';
+        dailyPromptState = 'hidden';
+        renderDailyPrompt();
+        discardRecording();
+        // Recordings that were never saved can't be played again
+        revokeAudioUrls([...pendingAudio.keys()]);
+        pendingAudio.clear();
+        modalAudioClips = [];
+        renderModalAudioClips();
+        setDictationStatus('');
+        tagSuggestionsList.innerHTML = '';
+        historyPanel.open = false;
+        historyPanel.classList.add('hidden');
+        historyContent.innerHTML = '';
+        historyRevisions = [];
+        selectedRevisionId = null;
+        currentlyEditingEntryId = null;
+        modalTitle.textContent = "New Entry";
+        saveBtn.textContent = "Save";
+        deleteBtn.classList.add('hidden');
+    }
+}
+
+/**
+ * Closes the modal at the user's request (Cancel, Escape or the overlay), asking first if that
+ * would throw away changes or new recordings. Discarded changes are removed from the autosaved draft too.
+ */
+function requestCloseModal() {
+    if (hasUnsavedChanges() || pendingAudio.size > 0 || recording || isTranscribing) {
+        if (!confirm("Discard your unsaved changes to this entry?")) return;
+        deleteDraft(getDraftId()).catch(handleStorageError);
+    } else if (!pendingDraft) {
+        // Any stored draft is stale: the fields match the entry again
+        deleteDraft(getDraftId()).catch(handleStorageError);
+    }
+    toggleModal(false);
+}
+
+/**
+ * Opens the modal to edit an existing entry.
+ * @param {number} entryId - The ID of the entry to edit.
+ */
+function openEditModal(entryId: number) {
+    const entry = entryStore.find(entryId);
+    if (!entry) return;
+
+    currentlyEditingEntryId = entry.id;
+    entryTitle.value = entry.title;
+    entryContent.value = entry.content;
+    entryDateInput.value = entry.entryDate;
+    setModalMood(entry.mood);
+    entryEmotions.value = (entry.emotions || []).join(', ');
+    renderEmotionChips();
+    modalTags = [...(entry.tags || [])];
+    renderModalTags();
+    entryFolder.value = entry.folder || '';
+    modalTemplateId = entry.template;
+    modalPrompt = entry.prompt;
+    modalAudioClips = [...(entry.audioClips || [])];
+    
+    modalTitle.textContent = "Edit Entry";
+    saveBtn.textContent = "Save Changes";
+    deleteBtn.classList.remove('hidden');
+    historyPanel.classList.remove('hidden');
+    
+    toggleModal(true);
+}
+
+/**
+ * The key of the draft for what the modal is showing.
+ * @returns {number} The edited entry's ID, or NEW_ENTRY_DRAFT_ID.
+ */
+function getDraftId(): number {
+    return currentlyEditingEntryId ?? NEW_ENTRY_DRAFT_ID;
+}
+
+/**
+ * Checks whether the modal's title or content differ from what it opened with.
+ * @returns {boolean} True if closing the modal now would lose something.
+ */
+function hasUnsavedChanges(): boolean {
+    return !modalOverlay.classList.contains('hidden')
+        && (entryTitle.value !== modalBaseline.title || entryContent.value !== modalBaseline.content);
+}
+
+/**
+ * Writes the modal's title and content to its draft straight away, or deletes the draft if
+ * nothing has changed. Called on a debounce while typing and when the page may be going away.
+ */
+function saveDraftNow() {
+    window.clearTimeout(draftSaveTimer);
+    draftSaveTimer = undefined;
+    if (modalOverlay.classList.contains('hidden')) return;
+    const id = getDraftId();
+    if (!hasUnsavedChanges()) {
+        deleteDraft(id).catch(handleStorageError);
+        return;
+    }
+    const entry = entryStore.find(currentlyEditingEntryId);
+    putDraft({
+        id,
+        title: entryTitle.value,
+        content: entryContent.value,
+        template: modalTemplateId,
+        prompt: modalPrompt,
+        savedAt: new Date().toISOString(),
+        baseUpdatedAt: entry?.updatedAt,
+    }).catch(handleStorageError);
+}
+
+/**
+ * Autosaves shortly after the user stops typing. Typing over an offered draft replaces it.
+ */
+function scheduleDraftSave() {
+    if (pendingDraft) {
+        pendingDraft = null;
+        draftNotice.classList.add('hidden');
+    }
+    window.clearTimeout(draftSaveTimer);
+    draftSaveTimer = window.setTimeout(saveDraftNow, DRAFT_SAVE_DELAY_MS);
+}
+
+/**
+ * Looks for an unsaved draft of what the modal has just opened, and offers to restore it.
+ */
+async function offerDraft() {
+    const id = getDraftId();
+    let draft: EntryDraft | undefined;
+    try {
+        draft = await getDraft(id);
+    } catch (error) {
+        console.error("Failed to load draft:", error);
+        return;
+    }
+    // The modal may have closed, moved to another entry or been typed in while loading
+    if (!draft || modalOverlay.classList.contains('hidden') || getDraftId() !== id || hasUnsavedChanges()) return;
+    if (draft.title === entryTitle.value && draft.content === entryContent.value) {
+        deleteDraft(id).catch(handleStorageError);
+        return;
+    }
+    const entry = entryStore.find(currentlyEditingEntryId);
+    const changedSince = entry && draft.baseUpdatedAt && entry.updatedAt !== draft.baseUpdatedAt
+        ? ' The entry has been changed since.'
+        : '';
+    pendingDraft = draft;
+    draftNoticeText.textContent = `You have unsaved changes from ${formatTimestamp(draft.savedAt)}.${changedSince}`;
+    draftNotice.classList.remove('hidden');
+}
+
+/**
+ * Puts the offered draft's title and content into the modal.
+ */
+function restoreDraft() {
+    if (!pendingDraft) return;
+    entryTitle.value = pendingDraft.title;
+    entryContent.value = pendingDraft.content;
+    modalTemplateId = pendingDraft.template;
+    modalPrompt = pendingDraft.prompt;
+    entryTemplateSelect.value = modalTemplateId || '';
+    renderDailyPrompt();
+    pendingDraft = null;
+    draftNotice.classList.add('hidden');
+    setEditorTab('write');
+    entryContent.focus();
+}
+
+/**
+ * Deletes the offered draft.
+ */
+function discardDraft() {
+    if (!pendingDraft) return;
+    deleteDraft(pendingDraft.id).catch(handleStorageError);
+    pendingDraft = null;
+    draftNotice.classList.add('hidden');
+}
+
+/**
+ * Loads the history of the entry being edited into the History panel.
+ */
+async function loadEntryHistory() {
+    const entryId = currentlyEditingEntryId;
+    if (!entryId) return;
+    historyContent.innerHTML = `<p class="placeholder">Loading history...</p>`;
+    try {
+        const revisions = await getEntryHistory(entryId);
+        if (currentlyEditingEntryId !== entryId) return; // The modal moved on while loading
+        historyRevisions = revisions;
+        selectedRevisionId = null;
+        renderEntryHistory();
+    } catch (error) {
+        console.error("Failed to load entry history:", error);
+        historyContent.innerHTML = `<p class="placeholder">${escapeHtml(error instanceof StorageError ? error.message : "Could not load this entry's history.")}</p>`;
+    }
+}
+
+/**
+ * Re-renders the History panel from the loaded revisions.
+ */
+function renderEntryHistory() {
+    const entry = entryStore.find(currentlyEditingEntryId);
+    if (!entry) return;
+    historyContent.innerHTML = renderHistoryHtml(historyRevisions, selectedRevisionId, entry);
+}
+
+/**
+ * Puts an older revision back: its title and text, and optionally its coaching, become the
+ * entry's current version. The restore is itself saved as a new revision.
+ * @param {number} revisionId - The revision to restore.
+ * @param {boolean} coachingOnly - Only bring back the revision's coach summary and conversation.
+ */
+function restoreRevision(revisionId: number, coachingOnly: boolean) {
+    const revision = historyRevisions.find(r => r.id === revisionId);
+    const previous = entryStore.find(currentlyEditingEntryId);
+    if (!revision || !previous) return;
+
+    const coaching = {
+        coachSummary: revision.coachSummary,
+        coachContextIds: revision.coachContextIds,
+        coachThread: revision.coachThread,
+        coachStyle: revision.coachStyle,
+    };
+    const restored = coachingOnly
+        ? { ...previous, ...coaching, updatedAt: new Date().toISOString() }
+        : { ...previous, ...coaching, title: revision.title, content: revision.content, updatedAt: new Date().toISOString() };
+    entryStore.save(restored);
+    recordRevision(previous, restored);
+    expandedEntryId = previous.id;
+    toggleModal(false);
+    renderApp();
+}
+
+/**
+ * Switches the modal's content field between writing and a rendered Markdown preview.
+ * @param {'write' | 'preview'} tab - The tab to show.
+ */
+function setEditorTab(tab: 'write' | 'preview') {
+    const isPreview = tab === 'preview';
+    if (isPreview) {
+        entryPreview.innerHTML = entryContent.value.trim()
+            ? renderMarkdown(entryContent.value)
+            : `<p class="placeholder">Nothing to preview yet.</p>`;
+    }
+    entryContent.classList.toggle('hidden', isPreview);
+    entryPreview.classList.toggle('hidden', !isPreview);
+    writeTab.classList.toggle('active', !isPreview);
+    previewTab.classList.toggle('active', isPreview);
+    writeTab.setAttribute('aria-selected', String(!isPreview));
+    previewTab.setAttribute('aria-selected', String(isPreview));
+}
+
+/**
+ * Selects a mood in the modal's mood picker.
+ * @param {number | undefined} mood - The 1-5 mood score, or undefined to clear the selection.
+ */
+function setModalMood(mood: number | undefined) {
+    entryForm.querySelectorAll<HTMLInputElement>('input[name="mood"]').forEach(input => {
+        input.checked = Number(input.value) === mood;
+    });
+}
+
+/**
+ * Reads the mood selected in the modal.
+ * @returns {number | undefined} The 1-5 mood score, if one is selected.
+ */
+function getModalMood(): number | undefined {
+    const selected = entryForm.querySelector<HTMLInputElement>('input[name="mood"]:checked');
+    return selected ? Number(selected.value) : undefined;
+}
+
+/**
+ * Renders the quick-pick emotion chips, highlighting the ones already in the emotions field.
+ */
+function renderEmotionChips() {
+    const selected = parseEmotions(entryEmotions.value);
+    emotionChips.innerHTML = COMMON_EMOTIONS.map(emotion => `
+        <button type="button" class="emotion-chip ${selected.includes(emotion) ? 'selected' : ''}" data-emotion="${emotion}" aria-pressed="${selected.includes(emotion)}">${emotion}</button>
+    `).join('');
+}
+
+/**
+ * Adds or removes a quick-pick emotion from the emotions field.
+ * @param {string} emotion - The emotion.
+ */
+function toggleEmotion(emotion: string) {
+    const selected = parseEmotions(entryEmotions.value);
+    const updated = selected.includes(emotion) ? selected.filter(e => e !== emotion) : [...selected, emotion];
+    entryEmotions.value = updated.join(', ');
+    renderEmotionChips();
+}
+
+/**
+ * Renders the modal's tag editor chips.
+ */
+function renderModalTags() {
+    entryTagsList.innerHTML = modalTags.map(tag => `
+        <span class="tag-chip selected">#${escapeHtml(tag)}<button type="button" class="tag-remove-btn" data-remove-tag="${escapeHtml(tag)}" aria-label="Remove tag ${escapeHtml(tag)}">&times;</button></span>
+    `).join('');
+}
+
+/**
+ * Adds a tag to the entry in the modal.
+ * @param {string} tag - The raw tag.
+ */
+function addModalTag(tag: string) {
+    const normalized = normalizeTag(tag);
+    if (normalized && !modalTags.includes(normalized)) {
+        modalTags.push(normalized);
+        renderModalTags();
+    }
+    tagSuggestionsList.querySelector(`[data-add-tag="${normalized}"]`)?.remove();
+}
+
+/**
+ * Renders the habit checkboxes in the modal, ticked as saved on the entry being edited. Archived
+ * habits are only listed if this entry already has them ticked, so saving doesn't drop them.
+ */
+function renderHabitChecklist() {
+    const entry = entryStore.find(currentlyEditingEntryId);
+    const checkedIds = entry?.habitsDone || [];
+    const shownHabits = habits.filter(habit => !habit.archived || checkedIds.includes(habit.id));
+    habitField.classList.toggle('hidden', shownHabits.length === 0);
+    habitChecklist.innerHTML = shownHabits.map(habit => `
+        <label class="habit-check">
+            <input type="checkbox" value="${habit.id}" ${checkedIds.includes(habit.id) ? 'checked' : ''}>
+            <span>${escapeHtml(habit.name)}</span>
+            <span class="habit-target">${describeHabitTarget(habit)}</span>
+        </label>
+    `).join('');
+}
+
+/**
+ * Reads the ticked habits from the modal.
+ * @returns {number[] | undefined} The habit IDs, or undefined if none are ticked.
+ */
+function getCheckedHabitIds(): number[] | undefined {
+    const ids = [...habitChecklist.querySelectorAll<HTMLInputElement>('input:checked')].map(input => Number(input.value));
+    return ids.length > 0 ? ids : undefined;
+}
+
+/**
+ * Fills the template picker, selecting the template of the entry in the modal.
+ */
+function renderTemplateOptions() {
+    entryTemplateSelect.innerHTML = [
+        `<option value="">Blank page</option>`,
+        ...JOURNAL_TEMPLATES.map(template => `<option value="${template.id}" title="${escapeHtml(template.description)}">${escapeHtml(template.label)}</option>`),
+    ].join('');
+    entryTemplateSelect.value = modalTemplateId || '';
+}
+
+/**
+ * Starts the entry from a journaling template, asking first if that would replace the user's own
+ * writing. Choosing the blank page clears an untouched template but keeps anything written.
+ * @param {string} templateId - The template, or an empty string for a blank page.
+ */
+function applyJournalTemplate(templateId: string) {
+    const template = getJournalTemplate(templateId);
+    const isUntouched = !entryContent.value.trim() || entryContent.value === templateContent;
+    if (template && !isUntouched && !confirm(`Replace what you've written with the ${template.label} template?`)) {
+        entryTemplateSelect.value = modalTemplateId || '';
+        return;
+    }
+    modalTemplateId = template?.id;
+    if (template) {
+        templateContent = createTemplateContent(template, formatOpenGoals(goals.filter(g => g.status === 'open'), entryStore.entries));
+        entryContent.value = templateContent;
+    } else if (isUntouched) {
+        templateContent = '';
+        entryContent.value = '';
+    }
+    setEditorTab('write');
+    entryContent.focus();
+    if (template) {
+        // Start typing under the first heading
+        const firstSection = entryContent.value.indexOf('\n\n') + 2;
+        entryContent.setSelectionRange(firstSection, firstSection);
+    }
+    scheduleDraftSave();
+}
+
+/**
+ * Renders the writing prompt area of the modal: the prompt the entry answers, or today's
+ * suggestion while it loads and once it's ready.
+ */
+function renderDailyPrompt() {
+    let html = '';
+    if (modalPrompt) {
+        html = `
+            <span class="material-symbols-outlined">lightbulb</span>
+            <p class="daily-prompt-text"><span class="daily-prompt-label">Writing about</span>${escapeHtml(modalPrompt)}</p>
+            <div class="daily-prompt-actions"><button type="button" data-prompt-action="remove">Remove</button></div>
+        `;
+    } else if (dailyPromptState === 'loading') {
+        html = `
+            <span class="material-symbols-outlined daily-prompt-spinner">progress_activity</span>
+            <p class="daily-prompt-text">Thinking of a prompt from your recent entries…</p>
+        `;
+    } else if (dailyPromptState === 'error') {
+        html = `
+            <span class="material-symbols-outlined">error</span>
+            <p class="daily-prompt-text">${isAiReachable() ? "Couldn't come up with a prompt right now." : "Prompts need a connection to your AI provider."}</p>
+            <div class="daily-prompt-actions"><button type="button" data-prompt-action="another">Try again</button></div>
+        `;
+    } else if (dailyPromptState === 'shown' && dailyPrompt) {
+        html = `
+            <span class="material-symbols-outlined">lightbulb</span>
+            <p class="daily-prompt-text"><span class="daily-prompt-label">Today's prompt</span>${escapeHtml(dailyPrompt.text)}</p>
+            <div class="daily-prompt-actions">
+                <button type="button" data-prompt-action="use">Write about this</button>
+                <button type="button" data-prompt-action="another">Another</button>
+                <button type="button" data-prompt-action="dismiss">Dismiss</button>
+            </div>
+        `;
+    }
+    dailyPromptCard.innerHTML = html;
+    dailyPromptCard.classList.toggle('hidden', !html);
+    dailyPromptCard.classList.toggle('daily-prompt-chosen', !!modalPrompt);
+    entryContent.placeholder = modalPrompt || 'Start writing...';
+}
+
+/**
+ * Shows today's writing prompt, generating one if there isn't one yet or the user asked for another.
+ * @param {boolean} forceNew - Whether to replace the current prompt.
+ */
+async function handleDailyPrompt(forceNew: boolean) {
+    const today = toDateInputValue(new Date());
+    if (!forceNew && dailyPrompt?.date === today) {
+        dailyPromptState = 'shown';
+        renderDailyPrompt();
+        return;
+    }
+    const previousPrompt = dailyPrompt?.date === today ? dailyPrompt.text : undefined;
+    dailyPromptState = 'loading';
+    dailyPromptBtn.disabled = true;
+    renderDailyPrompt();
+    try {
+        dailyPrompt = { date: today, text: await generateDailyPrompt(previousPrompt) };
+        dailyPromptState = 'shown';
+    } catch (error) {
+        console.error("Failed to generate a daily prompt:", error);
+        dailyPromptState = 'error';
+    } finally {
+        dailyPromptBtn.disabled = false;
+    }
+    if (modalOverlay.classList.contains('hidden')) dailyPromptState = 'hidden';
+    renderDailyPrompt();
+}
+
+/**
+ * Handles the buttons on the writing prompt.
+ * @param {string} action - 'use', 'another', 'dismiss' or 'remove'.
+ */
+function handleDailyPromptAction(action: string) {
+    if (action === 'use' && dailyPrompt) {
+        modalPrompt = dailyPrompt.text;
+    } else if (action === 'another') {
+        handleDailyPrompt(true);
+        return;
+    } else if (action === 'dismiss') {
+        dailyPromptState = 'hidden';
+    } else if (action === 'remove') {
+        modalPrompt = undefined;
+    }
+    renderDailyPrompt();
+    entryContent.focus();
+    scheduleDraftSave();
+}
+
+/**
+ * Whether this browser can record from the microphone.
+ * @returns {boolean} True if dictation can be offered.
+ */
+function canRecordAudio(): boolean {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Shows how dictation is going, under the editor tools.
+ * @param {string} message - The message, or an empty string to hide it.
+ * @param {boolean} [isError] - Whether the message reports a failure.
+ */
+function setDictationStatus(message: string, isError: boolean = false) {
+    dictationStatus.textContent = message;
+    dictationStatus.classList.toggle('hidden', !message);
+    dictationStatus.classList.toggle('dictation-error', isError);
+}
+
+/**
+ * Updates the record button: "Dictate" when idle, or a stop button with the time so far while recording.
+ */
+function renderRecordButton() {
+    recordBtn.classList.toggle('recording', !!recording);
+    recordBtn.setAttribute('aria-pressed', String(!!recording));
+    recordBtn.disabled = isTranscribing;
+    (recordBtn.querySelector('.material-symbols-outlined') as HTMLElement).textContent = recording ? 'stop_circle' : 'mic';
+    recordBtnLabel.textContent = recording ? `Stop ${formatDuration(Date.now() - recording.startedAt)}` : 'Dictate';
+}
+
+/**
+ * Starts recording from the microphone. The transcript will go where the cursor is now.
+ */
+async function startRecording() {
+    setEditorTab('write');
+    // A caret still at the very start usually means the editor was never clicked into, so add to the end
+    const cursor = entryContent.selectionStart || entryContent.value.length;
+    recordBtn.disabled = true; // While the browser asks for permission
+    let stream: MediaStream;
+    try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+        console.error("Failed to open the microphone:", error);
+        const isBlocked = error instanceof DOMException && error.name === 'NotAllowedError';
+        setDictationStatus(isBlocked
+            ? "Microphone access is blocked. Allow it in your browser's site settings to dictate."
+            : "Couldn't find a microphone to record from.", true);
+        renderRecordButton();
+        return;
+    }
+    // The modal may have closed while the browser was asking
+    if (modalOverlay.classList.contains('hidden')) {
+        stream.getTracks().forEach(track => track.stop());
+        renderRecordButton();
+        return;
+    }
+
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.addEventListener('dataavailable', event => {
+        if (event.data.size > 0) chunks.push(event.data);
+    });
+    recorder.start();
+    recording = {
+        recorder,
+        stream,
+        chunks,
+        startedAt: Date.now(),
+        cursor,
+        timer: window.setInterval(() => {
+            // Speaking counts as activity, so the diary doesn't lock mid-sentence
+            resetAutoLockTimer();
+            if (recording && Date.now() - recording.startedAt >= MAX_RECORDING_MS) {
+                stopRecording();
+            } else {
+                renderRecordButton();
+            }
+        }, 1000),
+    };
+    setDictationStatus(`Recording… Tap Stop when you're done (up to ${formatDuration(MAX_RECORDING_MS)}).`);
+    renderRecordButton();
+}
+
+/**
+ * Stops recording and transcribes the clip into the entry.
+ */
+async function stopRecording() {
+    if (!recording) return;
+    const { recorder, stream, chunks, startedAt, cursor, timer } = recording;
+    const durationMs = Date.now() - startedAt;
+    recording = null;
+    window.clearInterval(timer);
+    const stopped = new Promise(resolve => recorder.addEventListener('stop', resolve, { once: true }));
+    recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+    renderRecordButton();
+    await stopped; // The last chunk arrives just before 'stop'
+
+    const audio = new Blob(chunks, { type: recorder.mimeType || chunks[0]?.type || 'audio/webm' });
+    const clip: AudioClip = { id: Date.now(), mimeType: audio.type, durationMs, recordedAt: new Date(startedAt).toISOString() };
+    await transcribeIntoEntry(clip, audio, cursor, true);
+}
+
+/**
+ * Stops recording without keeping anything, e.g. when the modal closes.
+ */
+function discardRecording() {
+    if (!recording) return;
+    const { recorder, stream, timer } = recording;
+    recording = null;
+    window.clearInterval(timer);
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+    renderRecordButton();
+}
+
+/**
+ * Transcribes a clip and inserts the transcript into the entry. A new clip is attached to the
+ * entry if the user keeps recordings, and whenever transcription fails, so nothing said is lost.
+ * @param {AudioClip} clip - The clip.
+ * @param {Blob} audio - The recorded audio.
+ * @param {number} cursor - Where in the entry to insert the transcript.
+ * @param {boolean} isNewClip - Whether the clip was just recorded, rather than already attached.
+ */
+async function transcribeIntoEntry(clip: AudioClip, audio: Blob, cursor: number, isNewClip: boolean) {
+    const attach = () => {
+        if (isNewClip) attachAudioClip(clip, audio);
+    };
+    if (!transcriber || !isAiReachable()) {
+        attach();
+        const reason = transcriber ? "Transcription needs a connection to your AI provider" : "Transcription is unavailable. Please check your AI settings";
+        setDictationStatus(isNewClip ? `${reason}. The recording is attached below so you can transcribe it later.` : `${reason}.`, true);
+        return;
+    }
+
+    const draftId = getDraftId();
+    isTranscribing = true;
+    renderRecordButton();
+    setDictationStatus(`Transcribing ${formatDuration(clip.durationMs)} of audio…`);
+    let transcript: string | null = null;
+    try {
+        transcript = await transcriber.transcribe(audio);
+    } catch (error) {
+        console.error("Failed to transcribe recording:", error);
+    }
+    isTranscribing = false;
+    renderRecordButton();
+    // The modal may have closed or moved to another entry meanwhile
+    if (modalOverlay.classList.contains('hidden') || getDraftId() !== draftId) return;
+
+    if (transcript === null) {
+        attach();
+        setDictationStatus(isNewClip
+            ? "Couldn't transcribe the recording. It's attached below so you can try again."
+            : "Couldn't transcribe the recording. Please try again.", true);
+        return;
+    }
+    if (keepAudioClips) attach();
+    if (!transcript) {
+        setDictationStatus("No speech was picked up in the recording.", true);
+        return;
+    }
+    insertTranscript(transcript, cursor);
+    setDictationStatus(isNewClip && keepAudioClips ? "Transcribed. The recording is kept with the entry." : "Transcribed.");
+}
+
+/**
+ * Inserts dictated text into the entry, with spaces around it where it meets other words.
+ * @param {string} transcript - The text.
+ * @param {number} position - The offset in the entry to insert at.
+ */
+function insertTranscript(transcript: string, position: number) {
+    const before = entryContent.value.slice(0, position);
+    const after = entryContent.value.slice(position);
+    const inserted = `${before && !/\s$/.test(before) ? ' ' : ''}${transcript}${after && !/^\s/.test(after) ? ' ' : ''}`;
+    entryContent.value = before + inserted + after;
+    const end = before.length + inserted.length;
+    setEditorTab('write');
+    entryContent.focus();
+    entryContent.setSelectionRange(end, end);
+    scheduleDraftSave();
+}
+
+/**
+ * Adds a new recording to the entry in the modal. It is stored when the entry is saved.
+ * @param {AudioClip} clip - The clip.
+ * @param {Blob} audio - The recorded audio.
+ */
+function attachAudioClip(clip: AudioClip, audio: Blob) {
+    pendingAudio.set(clip.id, audio);
+    audioUrls.set(clip.id, URL.createObjectURL(audio));
+    modalAudioClips.push(clip);
+    renderModalAudioClips();
+}
+
+/**
+ * Renders the recordings attached to the entry in the modal.
+ */
+function renderModalAudioClips() {
+    modalAudioClipsList.classList.toggle('hidden', modalAudioClips.length === 0);
+    modalAudioClipsList.innerHTML = modalAudioClips.map(clip => renderAudioClipHtml(
+        clip,
+        pendingAudio.has(clip.id) ? null : currentlyEditingEntryId,
+        `<div class="audio-clip-actions">
+            <button type="button" data-clip-action="transcribe" data-clip-id="${clip.id}">Transcribe</button>
+            <button type="button" data-clip-action="remove" data-clip-id="${clip.id}">Remove</button>
+        </div>`,
+    )).join('');
+    fillAudioSources(modalAudioClipsList);
+}
+
+/**
+ * Reads the audio of a clip attached to the entry in the modal.
+ * @param {AudioClip} clip - The clip.
+ * @returns {Promise<Blob>} The recorded audio.
+ */
+async function getClipAudio(clip: AudioClip): Promise<Blob> {
+    const pending = pendingAudio.get(clip.id);
+    if (pending) return pending;
+    if (!audioUrls.has(clip.id) && currentlyEditingEntryId) {
+        await loadAudioUrls(currentlyEditingEntryId);
+    }
+    const url = audioUrls.get(clip.id);
+    if (!url) {
+        throw new Error("The recording could not be found.");
+    }
+    return (await fetch(url)).blob();
+}
+
+/**
+ * Handles the buttons on a recording in the modal. Removing a saved clip takes effect when the
+ * entry is saved; a recording that was never saved is gone for good, so that asks first.
+ * @param {string} action - 'transcribe' or 'remove'.
+ * @param {number} clipId - The clip's ID.
+ */
+async function handleAudioClipAction(action: string, clipId: number) {
+    const clip = modalAudioClips.find(c => c.id === clipId);
+    if (!clip) return;
+    if (action === 'remove') {
+        if (pendingAudio.has(clipId) && !confirm("Delete this recording? It hasn't been saved.")) return;
+        modalAudioClips = modalAudioClips.filter(c => c.id !== clipId);
+        if (pendingAudio.delete(clipId)) revokeAudioUrls([clipId]);
+        renderModalAudioClips();
+    } else if (action === 'transcribe') {
+        if (recording || isTranscribing) return;
+        let audio: Blob;
+        try {
+            audio = await getClipAudio(clip);
+        } catch (error) {
+            console.error("Failed to load recording:", error);
+            setDictationStatus("Couldn't load the recording.", true);
+            return;
+        }
+        await transcribeIntoEntry(clip, audio, entryContent.value.length, false);
+    }
+}
+
+/**
+ * Fills the tag and folder autocomplete lists from the tags and folders already in use.
+ */
+function renderTagOptions() {
+    const activeEntries = entryStore.entries.filter(e => e.status === 'active');
+    tagOptions.innerHTML = collectTags(activeEntries).map(({ tag }) => `<option value="${escapeHtml(tag)}"></option>`).join('');
+    folderOptions.innerHTML = collectFolders(activeEntries).map(folder => `<option value="${escapeHtml(folder)}"></option>`).join('');
+}
+
+/**
+ * Suggests a writing prompt for today using the configured AI provider, personalised from the
+ * most recent entries, themes from their coaching, and open commitments.
+ * @param {string} [previousPrompt] - A prompt the user passed on, to suggest something different.
+ * @returns {Promise<string>} A promise that resolves to the prompt.
+ */
+async function generateDailyPrompt(previousPrompt?: string): Promise<string> {
+    if (!ai) {
+        throw new Error("AI is currently unavailable.");
+    }
+    const recent = entryStore.entries
+        .filter(e => e.status === 'active')
+        .sort((a, b) => compareEntriesChronologically(b, a));
+    const recentEntries = recent.slice(0, DAILY_PROMPT_RECENT_ENTRIES).reverse().map(entry => {
+        const excerpt = entry.content.length > DAILY_PROMPT_EXCERPT_CHARS ? `${entry.content.slice(0, DAILY_PROMPT_EXCERPT_CHARS)}…` : entry.content;
+        const prompt = entry.prompt ? `\n(Answering the prompt: "${entry.prompt}")` : '';
+        return `### ${formatEntryDate(entry.entryDate)}: ${entry.title}${prompt}\n${excerpt}`;
+    }).join('\n\n');
+    const coachThemes = recent.filter(e => e.coachSummary).slice(0, DAILY_PROMPT_RECENT_ENTRIES).reverse().map(entry => {
+        const summary = entry.coachSummary as string;
+        const excerpt = summary.length > COACH_SUMMARY_EXCERPT_CHARS ? `${summary.slice(0, COACH_SUMMARY_EXCERPT_CHARS)}…` : summary;
+        return `### On "${entry.title}" (${formatEntryDate(entry.entryDate)})\n${excerpt}`;
+    }).join('\n\n');
+
+    let prompt = buildDailyPromptRequest({
+        date: formatEntryDate(toDateInputValue(new Date())),
+        recentEntries,
+        coachThemes,
+        openGoals: formatOpenGoals(goals.filter(g => g.status === 'open'), entryStore.entries),
+    });
+    if (previousPrompt) {
+        prompt += `\n\nThe user passed on this prompt, so suggest something different: "${previousPrompt}"`;
+    }
+    const text = (await ai.generate(prompt)).trim().replace(/^["“]|["”]$/g, '');
+    if (!text) {
+        throw new Error("The AI returned an empty prompt.");
+    }
+    return text;
+}
+
+/**
+ * Generates a title for an entry still waiting for one, and records the change in its history.
+ * @param {AiJob} job - The title job.
+ */
+async function runTitleJob(job: AiJob) {
+    const change = await regenerateTitle(ai, entryStore, job.entryId, coachingSettings.titleTemplate);
+    if (!change) return;
+    recordRevision(change.previous, change.entry);
+    // Keep an open edit modal in step, unless the user has started typing a title there
+    const title = change.entry.title;
+    if (currentlyEditingEntryId === job.entryId && entryTitle.value === modalBaseline.title) {
+        entryTitle.value = title;
+        modalBaseline.title = title;
+    }
+}
+
+/**
+ * Builds the coaching prompt for an entry from the current coaching settings, open goals and habits.
+ * @param {DiaryEntry} entry - The entry being coached.
+ * @param {CoachContext} context - Earlier entries to compare it against.
+ * @returns {string} The prompt.
+ */
+function buildCoachPromptForEntry(entry: DiaryEntry, context: CoachContext): string {
+    const openGoals = goals.filter(g => g.status === 'open' && g.originEntryId !== entry.id);
+    return buildCoachPrompt(entry, context, openGoals, coachingSettings, { entries: entryStore.entries, habits });
+}
+
+/**
+ * Finds the stored review for a period.
+ * @param {ReviewPeriod} reviewPeriod - The period.
+ * @returns {Review | undefined} The review, if one has been generated.
+ */
+function findReview(reviewPeriod: ReviewPeriod): Review | undefined {
+    return reviews.find(r => r.period === reviewPeriod.period && r.start === reviewPeriod.start);
+}
+
+/**
+ * Builds the prompt for a weekly or monthly review, using the same coaching framework as per-entry coaching.
+ * Entries are shortened evenly if the whole period would not fit the token budget.
+ * @param {ReviewPeriod} reviewPeriod - The period.
+ * @param {DiaryEntry[]} periodEntries - The active entries in the period, oldest first.
+ * @param {Review | undefined} previousReview - The review of the period before, for continuity.
+ * @param {Goal[]} openGoals - Goals the user hasn't completed or dropped.
+ * @returns {string} The prompt.
+ */
+function buildReviewPrompt(reviewPeriod: ReviewPeriod, periodEntries: DiaryEntry[], previousReview: Review | undefined, openGoals: Goal[]): string {
+    const totalTokens = periodEntries.reduce((sum, entry) => sum + estimateTokens(entry.content), 0);
+    const maxCharsPerEntry = totalTokens > REVIEW_CONTEXT_TOKEN_BUDGET
+        ? Math.floor((REVIEW_CONTEXT_TOKEN_BUDGET * 4) / periodEntries.length)
+        : Infinity;
+    const entriesText = periodEntries.map(entry => {
+        const content = entry.content.length > maxCharsPerEntry ? `${entry.content.slice(0, maxCharsPerEntry)}…` : entry.content;
+        return formatCoachContextEntry(entry, content);
+    }).join('\n\n');
+    const periodName = reviewPeriod.period === 'week' ? 'week' : 'month';
+
+    return `${getPersona(coachingSettings.persona).prompt}
+
+${getResponseFormat(coachingSettings)}
+
+---
+## Previous Review
+
+This is your review of the ${periodName} before. Use it to track progress and check in on past commitments.
+
+${previousReview ? previousReview.summary : '(No previous review.)'}
+
+---
+## Open Commitments
+
+These are goals and commitments from your earlier coaching that the user has not yet marked as done. Say which ones the user made progress on this ${periodName}, which ones stalled, and which are overdue.
+
+${formatOpenGoals(openGoals, entryStore.entries) || '(No open commitments.)'}
+
+---
+## Habits
+
+These are the habits the user is tracking and how often they checked them off this ${periodName}. Point out which ones held up, which slipped, and suggest adjustments.
+
+${formatHabitsForPrompt(habits, entryStore.entries, reviewPeriod.start, reviewPeriod.end) || '(No habits tracked.)'}
+
+---
+This is a ${reviewPeriod.period === 'week' ? 'weekly' : 'monthly'} review. Analyze all of the user's diary entries from ${formatReviewPeriod(reviewPeriod)} (${reviewPeriod.start} to ${reviewPeriod.end}) together, based on the instructions above. Look for patterns across the whole ${periodName} rather than commenting on each entry in turn, and point out blind spots that only show up over several days.
+
+${entriesText}`;
+}
+
+/**
+ * Generates a review of a week or month.
+ * @param {ReviewPeriod} reviewPeriod - The period.
+ * @param {DiaryEntry[]} periodEntries - The active entries in the period, oldest first.
+ * @returns {Promise<string>} The review text.
+ */
+async function generateReview(reviewPeriod: ReviewPeriod, periodEntries: DiaryEntry[]): Promise<string> {
+    if (!ai) {
+        throw new Error("AI is currently unavailable.");
+    }
+    const previousStart = listReviewPeriods(entryStore.entries, reviewPeriod.period).find(p => p.start < reviewPeriod.start);
+    const previousReview = previousStart ? findReview(previousStart) : undefined;
+    const prompt = buildReviewPrompt(reviewPeriod, periodEntries, previousReview, goals.filter(g => g.status === 'open'));
+    return (await ai.generate(prompt)).trim();
+}
+
+/**
+ * Embeds texts with the AI provider, falling back to local embeddings if there is no provider or it can't embed.
+ * @param {string[]} texts - The texts to embed.
+ * @returns {Promise<{ model: string; vectors: number[][] }>} The vectors and the model that made them.
+ */
+async function embedTexts(texts: string[]): Promise<{ model: string; vectors: number[][] }> {
+    if (ai && !useLocalEmbeddings) {
+        try {
+            return { model: ai.embeddingModel, vectors: await ai.embed(texts) };
+        } catch (error) {
+            console.warn("Embedding failed, falling back to local embeddings:", error);
+            useLocalEmbeddings = true;
+        }
+    }
+    return { model: LOCAL_EMBEDDING_MODEL, vectors: texts.map(text => createLocalEmbedding(text)) };
+}
+
+/**
+ * Embeds any active entries that are new, edited, or were embedded by a different model, in the background.
+ */
+async function refreshEmbeddings() {
+    if (isRefreshingEmbeddings || isLocked) return;
+    isRefreshingEmbeddings = true;
+    let changed = false;
+    try {
+        while (!isLocked) {
+            const model = ai && !useLocalEmbeddings ? ai.embeddingModel : LOCAL_EMBEDDING_MODEL;
+            const stale = entryStore.entries
+                .filter(e => e.status === 'active' && !isEmbeddingCurrent(embeddings.get(e.id), e, model))
+                .slice(0, EMBEDDING_BATCH_SIZE);
+            if (stale.length === 0) break;
+
+            const texts = stale.map(getEmbeddingText);
+            const result = await embedTexts(texts);
+            if (isLocked) break; // Don't write plaintext after the key is gone
+            const computed: EntryEmbedding[] = stale.map((entry, i) => ({
+                id: entry.id,
+                model: result.model,
+                contentHash: hashContent(texts[i]),
+                vector: result.vectors[i],
+            }));
+            computed.forEach(embedding => embeddings.set(embedding.id, embedding));
+            await putEmbeddings(computed);
+            changed = true;
+        }
+    } catch (error) {
+        console.error("Failed to update entry embeddings:", error);
+    } finally {
+        isRefreshingEmbeddings = false;
+    }
+    if (changed) updateRelatedEntries();
+}
+
+/**
+ * Picks the entries most relevant to a question and asks the model to answer from them, citing entry IDs.
+ * @param {string} question - The user's question.
+ * @returns {Promise<{ answer: string; sourceIds: number[] }>} The answer and the entries it was given.
+ */
+async function askDiary(question: string): Promise<{ answer: string; sourceIds: number[] }> {
+    if (!ai) {
+        return { answer: "AI is currently unavailable.", sourceIds: [] };
+    }
+    const { model, vectors: [questionVector] } = await embedTexts([question]);
+    const ranked = rankBySimilarity(questionVector, model, entryStore.entries.filter(e => e.status === 'active'), embeddings);
+
+    // Fill the budget with the most relevant entries; skip any single entry that wouldn't fit
+    const sources: DiaryEntry[] = [];
+    let tokensUsed = 0;
+    for (const { entry } of ranked) {
+        if (sources.length >= ASK_CONTEXT_MAX_ENTRIES) break;
+        const tokens = estimateTokens(entry.content);
+        if (tokensUsed + tokens > ASK_CONTEXT_TOKEN_BUDGET) continue;
+        sources.push(entry);
+        tokensUsed += tokens;
+    }
+    if (sources.length === 0) {
+        return { answer: "I couldn't find any entries to answer that from.", sourceIds: [] };
+    }
+
+    const excerpts = sources.map(entry => `[#${entry.id}] ${formatEntryDate(entry.entryDate)}: ${entry.title}\n${entry.content}`).join('\n\n');
+    const prompt = `Answer the question below using only these entries from my diary. After each statement, cite the entry it comes from by its ID in square brackets, exactly as shown, e.g. [#${sources[0].id}]. If the entries don't answer the question, say so.
+
+---
+${excerpts}
+---
+
+Question: ${question}`;
+    const answer = await ai.generate(prompt, {
+        systemInstruction: "You help the user find things in their own diary. Be brief and specific, and speak to the user as \"you\".",
+    });
+    return { answer: answer.trim(), sourceIds: sources.map(entry => entry.id) };
+}
+
+/**
+ * Shows an error message to the user.
+ * @param {string} message - The error message to display.
+ */
+function showError(message: string) {
+    alert(`Error: ${message}`);
+}
+
+// --- Event Handlers ---
+
+/**
+ * Handles form submission for both new and edited entries.
+ * @param {Event} event - The form submission event.
+ */
+function handleFormSubmit(event: Event) {
+    event.preventDefault();
+    if (recording || isTranscribing) {
+        setDictationStatus("Finish dictating before saving the entry.", true);
+        return;
+    }
+    const content = entryContent.value.trim();
+    const userTypedTitle = entryTitle.value.trim();
+    const entryDate = entryDateInput.value || toDateInputValue(new Date());
+    const mood = getModalMood();
+    const emotions = parseEmotions(entryEmotions.value);
+    // Credit the AI only if its suggestion was saved exactly as offered
+    const moodSource: DiaryEntry['moodSource'] = !mood ? undefined
+        : moodSuggestion && moodSuggestion.mood === mood && moodSuggestion.emotions.join() === emotions.join() ? 'ai' : 'user';
+    if (entryTagInput.value.trim()) addModalTag(entryTagInput.value);
+    const details: EntryDetails = {
+        mood,
+        moodSource,
+        emotions: emotions.length > 0 ? emotions : undefined,
+        tags: modalTags.length > 0 ? [...modalTags] : undefined,
+        folder: entryFolder.value.trim() || undefined,
+        habitsDone: getCheckedHabitIds(),
+        template: modalTemplateId,
+        prompt: modalPrompt,
+        audioClips: modalAudioClips.length > 0 ? [...modalAudioClips] : undefined,
+    };
+    
+    if (!content) return;
+
+    const input: EntryInput = { title: userTypedTitle, content, entryDate, details };
+    const entryIdToEdit = currentlyEditingEntryId;
+    // Taken before the modal resets, which would discard them
+    const recordedAudio = new Map(pendingAudio);
+    pendingAudio.clear();
+    window.clearTimeout(draftSaveTimer);
+    deleteDraft(getDraftId()).catch(handleStorageError);
+
+    toggleModal(false);
+
+    // Entries save straight away; a generated title follows from the job queue
+    if (entryIdToEdit) {
+        const change = entryStore.edit(entryIdToEdit, input);
+        if (!change) return;
+        recordRevision(change.previous, change.entry);
+        if (recordedAudio.size > 0 || (change.previous.audioClips || []).length !== (details.audioClips || []).length) {
+            saveEntryAudio(entryIdToEdit, details.audioClips || [], recordedAudio);
+        }
+        if (change.entry.titlePending) jobQueue.enqueue('title', entryIdToEdit);
+    } else {
+        const newEntry = entryStore.create(input);
+        recordRevision(null, newEntry);
+        if (recordedAudio.size > 0) saveEntryAudio(newEntry.id, newEntry.audioClips || [], recordedAudio);
+        if (newEntry.titlePending) jobQueue.enqueue('title', newEntry.id);
+        expandedEntryId = newEntry.id; // Expand the new entry
+    }
+
+    renderApp();
+}
+
+/**
+ * Asks the AI for a mood and emotions based on what has been written so far, and fills them in.
+ */
+async function handleSuggestMood() {
+    const content = entryContent.value.trim();
+    if (!content) {
+        moodSuggestionNote.textContent = "Write something first, then ask for a suggestion.";
+        moodSuggestionNote.classList.remove('hidden');
+        return;
+    }
+
+    suggestMoodBtn.disabled = true;
+    suggestMoodBtn.textContent = 'Suggesting...';
+    try {
+        const suggestion = await suggestMood(ai, content);
+        if (!suggestion) {
+            moodSuggestionNote.textContent = "Couldn't suggest a mood right now.";
+        } else {
+            moodSuggestion = suggestion;
+            setModalMood(suggestion.mood);
+            entryEmotions.value = suggestion.emotions.join(', ');
+            renderEmotionChips();
+            const level = getMoodLevel(suggestion.mood);
+            moodSuggestionNote.textContent = `AI suggestion: ${level?.emoji} ${level?.label}. Change it if it doesn't feel right.`;
+        }
+        moodSuggestionNote.classList.remove('hidden');
+    } finally {
+        suggestMoodBtn.disabled = false;
+        suggestMoodBtn.textContent = 'Suggest from entry';
+    }
+}
+
+/**
+ * Asks the AI for tags and offers the ones the entry doesn't have yet as clickable chips.
+ */
+async function handleSuggestTags() {
+    const content = entryContent.value.trim();
+    if (!content) {
+        tagSuggestionsList.innerHTML = `<span class="suggestion-note">Write something first, then ask for tags.</span>`;
+        return;
+    }
+
+    suggestTagsBtn.disabled = true;
+    suggestTagsBtn.textContent = 'Suggesting...';
+    try {
+        const existingTags = collectTags(entryStore.entries.filter(e => e.status === 'active')).map(({ tag }) => tag);
+        const suggestions = (await suggestTags(ai, content, existingTags)).filter(tag => !modalTags.includes(tag));
+        tagSuggestionsList.innerHTML = suggestions.length > 0
+            ? suggestions.map(tag => `<button type="button" class="tag-chip tag-suggestion" data-add-tag="${escapeHtml(tag)}">+ #${escapeHtml(tag)}</button>`).join('')
+            : `<span class="suggestion-note">No new tags to suggest.</span>`;
+    } finally {
+        suggestTagsBtn.disabled = false;
+        suggestTagsBtn.textContent = 'Suggest tags';
+    }
+}
+
+/**
+ * Generates (or regenerates) the review for a period and stores it.
+ * @param {string} start - The YYYY-MM-DD first day of the period, in the current reviews period size.
+ */
+async function handleGenerateReview(start: string) {
+    const reviewPeriod = listReviewPeriods(entryStore.entries, reviewsPeriod).find(p => p.start === start);
+    if (!reviewPeriod || generatingReviewStart) return;
+    const periodEntries = getEntriesInPeriod(entryStore.entries, reviewPeriod);
+
+    generatingReviewStart = start;
+    renderApp();
+    try {
+        const summary = await generateReview(reviewPeriod, periodEntries);
+        const existing = findReview(reviewPeriod);
+        const review: Review = {
+            id: existing?.id ?? Date.now(),
+            ...reviewPeriod,
+            summary,
+            entryIds: periodEntries.map(entry => entry.id),
+            sourceHash: getReviewSourceHash(periodEntries),
+            createdAt: new Date().toISOString(),
+        };
+        reviews = [...reviews.filter(r => r.id !== review.id), review];
+        saveReviews(review);
+    } catch (error) {
+        console.error("Error generating review:", error);
+        showError("Could not generate the review. Please try again.");
+    } finally {
+        generatingReviewStart = null;
+        renderApp();
+    }
+}
+
+/**
+ * Answers a question from the "Ask my diary" box.
+ * @param {string} question - The question.
+ */
+async function handleAskDiary(question: string) {
+    question = question.trim();
+    if (!question) return;
+    askState = { question, answer: '', sourceIds: [], isLoading: true };
+    renderApp();
+    try {
+        askState = { question, ...(await askDiary(question)), isLoading: false };
+    } catch (error) {
+        console.error("Error answering question:", error);
+        askState = { question, answer: "Sorry, I couldn't answer that right now. Please try again.", sourceIds: [], isLoading: false };
+    }
+    if (currentView === 'diary') renderApp();
+}
+
+/**
+ * Applies a new filter, mirroring it in the URL hash so it survives reloads.
+ * @param {EntryFilter} filter - The new filter.
+ */
+function setFilter(filter: EntryFilter) {
+    activeFilter = filter;
+    const query = filterToQuery(filter);
+    // replaceState doesn't fire hashchange, so typing in the search box doesn't re-run navigation
+    history.replaceState(null, '', `#${currentView}${query ? `?${query}` : ''}`);
+    renderApp();
+}
+
+/**
+ * Filters the diary by a tag or folder picked from an entry card or the filter bar.
+ * In the diary view this toggles the tag; elsewhere it opens the diary filtered by it.
+ * @param {{ tag?: string; folder?: string }} change - The tag or folder to filter by.
+ */
+function handleFilterChip(change: { tag?: string; folder?: string }) {
+    if (currentView !== 'diary') {
+        const filter: EntryFilter = { ...EMPTY_FILTER, tags: change.tag ? [change.tag] : [], folder: change.folder };
+        window.location.hash = `diary?${filterToQuery(filter)}`;
+        return;
+    }
+    if (change.tag) {
+        const tags = activeFilter.tags.includes(change.tag)
+            ? activeFilter.tags.filter(tag => tag !== change.tag)
+            : [...activeFilter.tags, change.tag];
+        setFilter({ ...activeFilter, tags });
+    } else {
+        setFilter({ ...activeFilter, folder: activeFilter.folder === change.folder ? undefined : change.folder });
+    }
+}
+
+/**
+ * Moves an entry to the trash from the modal, with a toast to undo it.
+ */
+function handleDeleteEntry() {
+    if (!currentlyEditingEntryId) return;
+    const id = currentlyEditingEntryId;
+    if (entryStore.trash([id]).length > 0) {
+        toggleModal(false);
+        renderApp();
+        showToast("Entry moved to trash.", { label: 'Undo', run: () => restoreEntries([id]) });
+    }
+}
+
+/**
+ * Handles the AI Coach button click by queueing coaching for the entry.
+ * @param {number} id - The ID of the entry.
+ */
+function handleAiCoach(id: number) {
+    if (!entryStore.find(id)) return;
+    jobQueue.enqueue('coach', id);
+}
+
+/**
+ * Coaches an entry, streaming the response into its card, then picks the commitments out of it.
+ * @param {AiJob} job - The coach job.
+ */
+async function runCoachJob(job: AiJob) {
+    const id = job.entryId;
+    const entry = entryStore.find(id);
+    if (!entry || entry.status !== 'active' || entry.coachSummary) return;
+
+    const coachStyle = getCoachStyle(coachingSettings); // The settings may change while the response streams
+    const context = buildCoachContext(entry, entryStore.entries);
+    const prompt = buildCoachPromptForEntry(entry, context);
+    streamingTexts.set(id, '');
+    renderApp();
+    let summary: string;
+    try {
+        summary = await getAiCoachSummary(ai, prompt, text => updateCoachStream(id, text));
+    } finally {
+        streamingTexts.delete(id);
+    }
+
+    // The entry may have been edited or deleted while the response streamed
+    const current = entryStore.find(id);
+    if (!current || current.content !== entry.content) return;
+    entryStore.save({
+        ...current,
+        coachSummary: summary,
+        coachContextIds: context.entries.map(e => e.id),
+        coachStyle,
+    });
+    renderApp();
+
+    // Replace any still-open goals from an earlier coaching run of this entry
+    const commitments = await extractCommitments(ai, summary, entry.content);
+    const createdAt = Date.now();
+    const replacedGoalIds = goals.filter(g => g.originEntryId === id && g.status === 'open').map(g => g.id);
+    const newGoals: Goal[] = commitments.map((commitment, index) => ({
+        id: createdAt + index,
+        text: commitment.text,
+        originEntryId: id,
+        dueDate: commitment.dueDate,
+        status: 'open',
+        createdAt,
+    }));
+    goals = [...goals.filter(g => !replacedGoalIds.includes(g.id)), ...newGoals];
+    if (replacedGoalIds.length > 0) removeGoals(replacedGoalIds);
+    saveGoals(...newGoals);
+}
+
+/**
+ * Re-renders views that show job status after a background job changes.
+ */
+function handleJobsChanged() {
+    if (currentView === 'diary' || currentView === 'calendar' || currentView === 'on-this-day' || currentView === 'trash') {
+        renderApp();
+    }
+}
+
+/**
+ * Sends the user's reply to the coach and streams the coach's response into the entry's thread.
+ * @param {number} id - The ID of the entry.
+ * @param {string} text - The user's message.
+ */
+async function handleCoachReply(id: number, text: string) {
+    const entry = entryStore.find(id);
+    const message = text.trim();
+    if (!entry || !message || streamingTexts.has(id)) return;
+
+    const question: CoachMessage = { role: 'user', text: message, timestamp: Date.now() };
+    const asked: DiaryEntry = { ...entry, coachThread: [...(entry.coachThread || []), question] };
+    entryStore.save(asked);
+
+    streamingTexts.set(id, '');
+    renderApp();
+
+    let failed = false;
+    try {
+        const prompt = buildCoachPromptForEntry(asked, buildCoachContext(asked, entryStore.entries));
+        const reply = await streamCoachReply(ai, asked, prompt, text => updateCoachStream(id, text));
+        // The entry may have been edited or deleted while the reply streamed
+        const current = entryStore.find(id);
+        if (current && current.content === asked.content) {
+            entryStore.save({ ...current, coachThread: [...(current.coachThread || []), { role: 'coach', text: reply, timestamp: Date.now() }] });
+        }
+    } catch (error) {
+        console.error("Failed to get AI coach reply:", error);
+        showError("There was a problem contacting the AI coach.");
+        failed = true;
+        // Take the unanswered message back out of the thread, so sending it again doesn't ask twice
+        const current = entryStore.find(id);
+        if (current?.coachThread?.includes(question)) {
+            const coachThread = current.coachThread.filter(m => m !== question);
+            entryStore.save({ ...current, coachThread: coachThread.length > 0 ? coachThread : undefined });
+        }
+    } finally {
+        streamingTexts.delete(id);
+        renderApp();
+    }
+    if (failed) {
+        // Hand the message back to the user to send again
+        const input = entriesContainer?.querySelector(`.coach-reply-form[data-id="${id}"] .coach-reply-input`) as HTMLTextAreaElement | null;
+        if (input) input.value = message;
+    }
+}
+
+/**
+ * Jumps to one of the earlier entries the coach referred to.
+ * @param {number} id - The ID of the entry to show.
+ */
+function handleShowContextEntry(id: number) {
+    const entry = entryStore.find(id);
+    if (!entry) return;
+    if (entry.status === 'trashed') {
+        window.location.hash = 'trash';
+        return;
+    }
+    if (currentView !== 'diary') {
+        window.location.hash = 'diary';
+        handleNavigation();
+    }
+
+    if (searchInput) searchInput.value = '';
+    activeFilter = EMPTY_FILTER;
+    expandedEntryId = id;
+    renderApp();
+    entriesContainer.querySelector(`[data-id="${id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+}
+
+/**
+ * Updates the status of a goal.
+ * @param {number} goalId - The ID of the goal.
+ * @param {Goal['status']} status - The new status.
+ */
+function handleGoalStatus(goalId: number, status: Goal['status']) {
+    const goal = goals.find(g => g.id === goalId);
+    if (!goal) return;
+    goal.status = status;
+    saveGoals(goal);
+    renderApp();
+}
+
+/**
+ * Updates the due date of a goal.
+ * @param {number} goalId - The ID of the goal.
+ * @param {string} dueDate - The new due date in YYYY-MM-DD format, or an empty string to clear it.
+ */
+function handleGoalDueDate(goalId: number, dueDate: string) {
+    const goal = goals.find(g => g.id === goalId);
+    if (!goal) return;
+    goal.dueDate = dueDate || undefined;
+    saveGoals(goal);
+    renderApp();
+}
+
+/**
+ * Adds a habit from the form on the habits page.
+ * @param {HTMLFormElement} form - The new habit form.
+ */
+function handleAddHabit(form: HTMLFormElement) {
+    const data = new FormData(form);
+    const name = String(data.get('name') || '').trim();
+    if (!name) return;
+    const [frequency, target] = String(data.get('frequency')).split('-');
+    const habit: Habit = {
+        id: Date.now(),
+        name,
+        frequency: frequency === 'weekly' ? 'weekly' : 'daily',
+        target: frequency === 'weekly' ? Number(target) : 1,
+        createdAt: Date.now(),
+    };
+    habits.push(habit);
+    saveHabits(habit);
+    renderApp();
+}
+
+/**
+ * Archives a habit so it is no longer offered in the editor, or brings it back.
+ * @param {number} habitId - The ID of the habit.
+ */
+function handleToggleHabitArchived(habitId: number) {
+    const habit = habits.find(h => h.id === habitId);
+    if (!habit) return;
+    habit.archived = habit.archived ? undefined : true;
+    saveHabits(habit);
+    renderApp();
+}
+
+/**
+ * Permanently deletes a habit and removes its check-offs from entries, after confirmation.
+ * @param {number} habitId - The ID of the habit.
+ */
+function handleDeleteHabit(habitId: number) {
+    const habit = habits.find(h => h.id === habitId);
+    if (!habit) return;
+    if (!confirm(`Delete "${habit.name}" and every check-off of it? Archive it instead to keep its history.`)) return;
+    habits = habits.filter(h => h.id !== habitId);
+    deleteHabits([habitId]).catch(handleStorageError);
+    const changedEntries = entryStore.entries.filter(e => e.habitsDone?.includes(habitId)).map(entry => {
+        const habitsDone = (entry.habitsDone as number[]).filter(id => id !== habitId);
+        return { ...entry, habitsDone: habitsDone.length > 0 ? habitsDone : undefined };
+    });
+    entryStore.save(...changedEntries);
+    renderApp();
+}
+
+/**
+ * Saves the AI settings from the settings page and switches to the new provider.
+ * @param {HTMLFormElement} form - The settings form.
+ */
+function handleSaveAiSettings(form: HTMLFormElement) {
+    aiSettings = readAiSettingsForm(form);
+    saveAiSettings(aiSettings);
+    initAiProvider();
+    refreshEmbeddings(); // A new provider may use a different embedding model
+    renderConnectionStatus();
+    renderApp();
+    const status = document.getElementById('ai-settings-status');
+    if (status) status.textContent = 'Settings saved.';
+}
+
+/**
+ * Validates and saves the coaching settings. A template left identical to the default is stored
+ * as empty, so it keeps following the default if that changes.
+ * @param {HTMLFormElement} form - The coaching settings form.
+ */
+function handleSaveCoachingSettings(form: HTMLFormElement) {
+    const data = new FormData(form);
+    const coachTemplate = String(data.get('coachTemplate') || '').trim();
+    const titleTemplate = String(data.get('titleTemplate') || '').trim();
+    const status = document.getElementById('coaching-settings-status') as HTMLElement;
+
+    const problems: string[] = [];
+    [
+        { name: 'coaching', template: coachTemplate, allowed: COACH_TEMPLATE_VARIABLES },
+        { name: 'title', template: titleTemplate, allowed: TITLE_TEMPLATE_VARIABLES },
+    ].forEach(({ name, template, allowed }) => {
+        if (!/\{\{\s*content\s*\}\}/.test(template)) {
+            problems.push(`The ${name} prompt must include {{content}}.`);
+        }
+        const unknown = findUnknownVariables(template, allowed);
+        if (unknown.length > 0) {
+            problems.push(`The ${name} prompt uses unknown variables: ${unknown.map(v => `{{${v}}}`).join(', ')}.`);
         }
+    });
+    status.classList.toggle('settings-status-error', problems.length > 0);
+    if (problems.length > 0) {
+        status.textContent = problems.join(' ');
         return;
     }
 
-    trashedEntries.forEach(entry => {
-        const entryElement = document.createElement('article');
-        entryElement.className = 'diary-entry trashed-entry';
-        entryElement.setAttribute('data-id', entry.id.toString());
-        entryElement.innerHTML = `
-            <h3>${entry.title}</h3>
-            <p class="entry-date">${entry.date}</p>
-            <p>${entry.content.replace(/\n/g, '<br>')}</p>
-            <div class="trashed-entry-actions">
-                <button class="restore-btn" data-id="${entry.id}">Restore</button>
-                <button class="delete-perm-btn" data-id="${entry.id}">Delete Permanently</button>
-            </div>
-        `;
-        entriesContainer.appendChild(entryElement);
-    });
+    coachingSettings = {
+        persona: getPersona(String(data.get('persona'))).id,
+        structure: data.get('structure') as CoachingSettings['structure'],
+        length: data.get('length') as CoachingSettings['length'],
+        coachTemplate: coachTemplate === DEFAULT_COACH_TEMPLATE ? '' : coachTemplate,
+        titleTemplate: titleTemplate === DEFAULT_TITLE_TEMPLATE ? '' : titleTemplate,
+    };
+    saveCoachingSettings(coachingSettings);
+    status.textContent = 'Coaching settings saved. They apply to new coaching and titles.';
 }
 
-
 /**
- * Loads entries from localStorage and migrates old data structure if necessary.
+ * Sends a tiny request with the settings currently entered, without saving them.
+ * @param {HTMLFormElement} form - The settings form.
+ * @param {HTMLButtonElement} button - The test button.
  */
-function loadEntries() {
+async function handleTestAiSettings(form: HTMLFormElement, button: HTMLButtonElement) {
+    const status = document.getElementById('ai-settings-status') as HTMLElement;
+    button.disabled = true;
+    status.classList.remove('settings-status-error');
+    status.textContent = 'Testing...';
     try {
-        const storedEntries = localStorage.getItem('diaryEntries');
-        if (storedEntries) {
-            entries = JSON.parse(storedEntries).map((entry: any) => ({
-                ...entry,
-                status: entry.status || 'active', // Ensure all entries have a status
-            }));
-        }
+        const provider = createAiProvider(readAiSettingsForm(form));
+        const reply = await provider.generate('Reply with the single word OK.');
+        status.textContent = `Connected. The model replied: "${reply.trim().slice(0, 80)}"`;
     } catch (error) {
-        console.error("Failed to load entries from localStorage:", error);
-        entries = [];
+        console.error("AI connection test failed:", error);
+        status.classList.add('settings-status-error');
+        status.textContent = `Connection failed: ${error instanceof Error ? error.message : String(error)}`;
+    } finally {
+        button.disabled = false;
     }
 }
 
 /**
- * Saves the current entries state to localStorage.
+ * Offers a file to the user as a download.
+ * @param {string} filename - The suggested file name.
+ * @param {Blob} blob - The file contents.
  */
-function saveEntries() {
-    try {
-        localStorage.setItem('diaryEntries', JSON.stringify(entries));
-    } catch (error) {
-        console.error("Failed to save entries to localStorage:", error);
+function downloadFile(filename: string, blob: Blob) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Exports the diary in the chosen format.
+ * @param {string} format - One of 'json', 'markdown', 'markdown-zip' or 'text'.
+ */
+function handleExport(format: string) {
+    const baseName = `diary-${toDateInputValue(new Date())}`;
+    const activeEntries = entryStore.entries.filter(e => e.status === 'active');
+    switch (format) {
+        case 'json':
+            downloadFile(`${baseName}.json`, new Blob([createJsonBundle(entryStore.entries, goals, habits)], { type: 'application/json' }));
+            break;
+        case 'markdown':
+            downloadFile(`${baseName}.md`, new Blob([createMarkdownExport(activeEntries)], { type: 'text/markdown' }));
+            break;
+        case 'markdown-zip':
+            downloadFile(`${baseName}.zip`, createMarkdownZip(activeEntries));
+            break;
+        case 'text':
+            downloadFile(`${baseName}.txt`, new Blob([createPlainTextExport(activeEntries)], { type: 'text/plain' }));
+            break;
     }
 }
 
 /**
- * Toggles the visibility of the modal and prepares it for new or existing entry.
- * @param {boolean} show - Whether to show or hide the modal.
+ * Reads and validates a chosen backup file, then shows what importing it would do.
+ * @param {HTMLInputElement} input - The file input.
  */
-function toggleModal(show: boolean) {
-    if (!modalOverlay) return;
-    if (show) {
-        modalOverlay.classList.remove('hidden');
-        entryContent.focus();
-    } else {
-        modalOverlay.classList.add('hidden');
-        // Reset modal state
-        entryForm.reset();
-        currentlyEditingEntryId = null;
-        modalTitle.textContent = "New Entry";
-        saveBtn.textContent = "Save";
-        deleteBtn.classList.add('hidden');
+async function handleImportFileChosen(input: HTMLInputElement) {
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+        const bundle = parseBundle(await file.text());
+        pendingImport = previewImport(bundle, entryStore.entries);
+    } catch (error) {
+        pendingImport = null;
+        console.error("Failed to read import file:", error);
+        showError(error instanceof ImportError ? error.message : "Could not read that file.");
+        input.value = '';
     }
+    const preview = document.getElementById('import-preview');
+    if (preview) preview.innerHTML = renderImportPreviewHtml();
 }
 
 /**
- * Opens the modal to edit an existing entry.
- * @param {number} entryId - The ID of the entry to edit.
+ * Imports the pending backup by merging it into, or replacing, the current diary.
+ * @param {HTMLFormElement} form - The import form.
  */
-function openEditModal(entryId: number) {
-    const entry = entries.find(e => e.id === entryId);
-    if (!entry) return;
+async function handleImport(form: HTMLFormElement) {
+    if (!pendingImport) return;
+    const { bundle } = pendingImport;
+    const mode = new FormData(form).get('mode');
+
+    if (mode === 'replace') {
+        if (!confirm(`Replace your diary with this backup? Your ${entryStore.entries.length} current ${entryStore.entries.length === 1 ? 'entry' : 'entries'} will be permanently deleted.`)) {
+            return;
+        }
+        try {
+            await replaceDiary(bundle.entries, bundle.goals, bundle.habits);
+        } catch (error) {
+            handleStorageError(error);
+            return;
+        }
+        entryStore.load(bundle.entries);
+        goals = bundle.goals;
+        habits = bundle.habits;
+        reviews = [];
+        embeddings = new Map();
+        jobQueue.clear();
+        refreshEmbeddings();
+    } else {
+        const added = mergeBundle(bundle, entryStore.entries, goals, habits);
+        goals = [...goals, ...added.goals];
+        habits = [...habits, ...added.habits];
+        entryStore.save(...added.entries);
+        saveGoals(...added.goals);
+        saveHabits(...added.habits);
+    }
 
-    currentlyEditingEntryId = entry.id;
-    entryTitle.value = entry.title;
-    entryContent.value = entry.content;
-    
-    modalTitle.textContent = "Edit Entry";
-    saveBtn.textContent = "Save Changes";
-    deleteBtn.classList.remove('hidden');
-    
-    toggleModal(true);
+    pendingImport = null;
+    renderApp();
+    alert(`Imported ${bundle.entries.length} ${bundle.entries.length === 1 ? 'entry' : 'entries'} from the backup.`);
 }
 
 /**
- * Toggles the visibility of the loading spinner.
- * @param {boolean} show - Whether to show or hide the loader.
+ * Shows a message in the lock settings card.
+ * @param {string} message - The message.
+ * @param {boolean} isError - Whether to style it as an error.
  */
-function toggleLoader(show: boolean) {
-    if (!loaderOverlay) return;
-    loaderOverlay.classList.toggle('hidden', !show);
+function setLockSettingsStatus(message: string, isError: boolean = false) {
+    const status = document.getElementById('lock-settings-status');
+    if (!status) return;
+    status.textContent = message;
+    status.classList.toggle('settings-status-error', isError);
 }
 
 /**
- * Generates a title for the diary entry using the Gemini API.
- * @param {string} content - The content of the diary entry.
- * @param {string} dateString - The date of the entry, to be used as a fallback title.
- * @returns {Promise<string>} A promise that resolves to the generated title.
+ * Handles the lock settings form: enables the lock, or changes the passphrase.
+ * @param {HTMLFormElement} form - The lock settings form.
  */
-async function generateTitle(content: string, dateString: string): Promise<string> {
-    if (!ai) {
-        return dateString; // Fallback title
+async function handleLockSettingsSubmit(form: HTMLFormElement) {
+    const data = new FormData(form);
+    const currentPassphrase = String(data.get('currentPassphrase') || '');
+    const newPassphrase = String(data.get('newPassphrase') || '');
+    const confirmPassphrase = String(data.get('confirmPassphrase') || '');
+
+    if (!newPassphrase) {
+        setLockSettingsStatus("Enter a new passphrase.", true);
+        return;
     }
+    if (newPassphrase !== confirmPassphrase) {
+        setLockSettingsStatus("The passphrases don't match.", true);
+        return;
+    }
+
+    setLockSettingsStatus(lockConfig ? "Re-encrypting your diary..." : "Encrypting your diary...");
     try {
-        const prompt = `Based on the following diary entry, suggest a short, one-line title for it (max 5 words). Do not use quotes:\n\n---\n${content}`;
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-        return response.text.trim() || dateString;
+        if (lockConfig) {
+            await unlock(lockConfig, currentPassphrase);
+        }
+        const lock = await createLock(newPassphrase);
+        await changeEncryption(lock);
+        const wasEnabled = !!lockConfig;
+        lockConfig = lock.config;
+        resetAutoLockTimer();
+        renderApp();
+        setLockSettingsStatus(wasEnabled ? "Passphrase changed." : "Diary lock enabled.");
     } catch (error) {
-        console.error("Error generating title with Gemini:", error);
-        return dateString; // Fallback title on error
+        console.error("Failed to update diary lock:", error);
+        setLockSettingsStatus(error instanceof Error ? error.message : "Could not update your diary lock.", true);
     }
 }
 
 /**
- * Generates a supportive summary for the diary entry using the Gemini API.
- * @param {string} content - The content of the diary entry.
- * @returns {Promise<string>} A promise that resolves to the generated summary.
+ * Removes the passphrase lock and stores entries unencrypted again.
+ * @param {HTMLFormElement} form - The lock settings form.
  */
-async function getAiCoachSummary(content: string): Promise<string> {
-    if (!ai) {
-        return "AI is currently unavailable.";
+async function handleRemoveLock(form: HTMLFormElement) {
+    if (!lockConfig) return;
+    const currentPassphrase = String(new FormData(form).get('currentPassphrase') || '');
+    if (!currentPassphrase) {
+        setLockSettingsStatus("Enter your current passphrase to remove the lock.", true);
+        return;
+    }
+    if (!confirm("Remove the lock? Your entries will be stored unencrypted on this device.")) {
+        return;
     }
-    try {
-        const prompt = `# AI Life Coach System Prompt
-
-You are an AI Life Coach specializing in diary analysis and personal development. Your primary function is to analyze diary entries and provide personalized coaching guidance to help users achieve their goals and overcome challenges.
-
-## Your Core Responsibilities
-
-1. **Pattern Analysis**: Identify recurring themes, emotions, behaviors, and experiences in diary entries
-2. **Blind Spot Detection**: Recognize limiting beliefs, cognitive biases, or self-sabotaging patterns the user might not see
-3. **Goal Clarification**: Help define clear, specific, and meaningful goals based on diary content
-4. **Actionable Insights**: Provide practical, step-by-step recommendations tailored to the user's situation
-5. **Reflective Questioning**: Ask open-ended questions that deepen self-awareness
-6. **Progress Tracking**: Monitor growth over time by comparing current entries to previous ones
-7. **Accountability**: Gently hold users accountable for their commitments and goals
-
-## Key Functions You Provide
-
-- **Goal Clarification**: Help users define clear, specific, and meaningful personal or professional goals
-- **Blind Spot Detection**: Identify hidden thought patterns, cognitive biases, or habitual behaviors that limit growth
-- **Reflective Questioning**: Ask open-ended and clarifying questions to enhance self-awareness and insight
-- **Actionable Advice**: Provide practical, step-by-step recommendations to improve habits, mindset, and behaviors
-- **Motivation and Encouragement**: Offer positive reinforcement and motivation to maintain momentum
-- **Accountability**: Check progress regularly and nudge users to stay on track without judgment
-- **Habit Tracking**: Support tracking habits and routines, analyze progress and suggest adjustments
-- **Problem-Solving Assistance**: Help brainstorm solutions and strategies for overcoming obstacles
-- **Emotional Support**: Offer empathy and non-judgmental listening to foster mental well-being
-- **Time Management Guidance**: Advise on prioritizing tasks and balancing commitments
-- **Personalized Feedback**: Tailor advice and coaching to individual personality and circumstances
-- **Continuous Adaptation**: Modify coaching style based on ongoing user input and progress
-
-## Your Coaching Approach
-- Be empathetic yet direct - point out patterns honestly while maintaining support
-- Ask thought-provoking questions that help users discover insights themselves
-- Reference specific diary entries or themes when providing guidance
-- Suggest concrete, actionable steps rather than vague advice
-- Track progress by comparing current entries to previous ones
-- Adapt your coaching style based on the user's personality and preferences as revealed in their writing
-- Maintain a non-judgmental, supportive tone while encouraging growth and accountability
-
-## Diary Analysis Framework
-
-When analyzing diary entries, focus on these key areas:
-- **Emotional Patterns**: What triggers certain feelings? What consistently lifts or dampens mood?
-- **Behavioral Patterns**: What habits, actions, or reactions appear repeatedly?
-- **Goal Clarity**: What does the user consistently write about wanting to achieve or change?
-- **Recurring Obstacles**: What challenges, excuses, or barriers come up repeatedly?
-- **Growth Opportunities**: Where does the user show potential for positive change?
-- **Blind Spots**: What patterns might the user be missing about themselves?
-- **Progress Indicators**: Signs of growth, improvement, or positive changes over time
-
-## Response Structure
-
-Structure your coaching responses using this format:
-
-1. **Key Observations**: Summarize the main patterns or themes you noticed in the diary entries
-2. **Blind Spot Alert**: Highlight what the user might not be seeing about themselves or their situation  
-3. **Reflective Questions**: Ask 2-3 thoughtful questions to help the user think deeper about these patterns
-4. **Actionable Recommendations**: Provide specific, practical steps the user can take based on your analysis
-5. **Accountability Check**: Compare to previous entries - is the user making progress on past commitments or goals?
-6. **Encouragement**: End with motivation and positive reinforcement for their self-reflection journey
-
-## Instructions for Use
-
-When a user shares diary entries with you:
-1. Read through all provided entries carefully
-2. Identify patterns, themes, and insights using the analysis framework
-3. Provide coaching using the structured response format above
-4. Maintain a supportive, non-judgmental tone throughout
-5. Always end with actionable next steps and encouragement
-
-Remember: Your goal is to help users gain self-awareness, overcome obstacles, and achieve their personal growth goals through insightful diary analysis and practical coaching guidance.
 
----
-Analyze the following diary entry based on the instructions above:
-${content}`;
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-        return response.text.trim();
+    try {
+        await unlock(lockConfig, currentPassphrase);
+        await changeEncryption(null);
+        lockConfig = null;
+        window.clearTimeout(autoLockTimer);
+        renderApp();
+        setLockSettingsStatus("Diary lock removed.");
     } catch (error) {
-        console.error("Error generating AI coach summary:", error);
-        return "Could not generate a summary at this time.";
+        console.error("Failed to remove diary lock:", error);
+        setLockSettingsStatus(error instanceof Error ? error.message : "Could not remove your diary lock.", true);
     }
 }
 
-
 /**
- * Shows an error message to the user.
- * @param {string} message - The error message to display.
+ * Locks the diary: forgets the key and all decrypted data, and shows the unlock screen.
  */
-function showError(message: string) {
-    alert(`Error: ${message}`);
+function lockDiary() {
+    if (!lockConfig) return;
+    window.clearTimeout(autoLockTimer);
+    // Keep what the user was writing; the draft is encrypted before the key is forgotten
+    if (hasUnsavedChanges()) saveDraftNow();
+    isLocked = true;
+    setEncryptionKey(null);
+    entryStore.load([]);
+    goals = [];
+    habits = [];
+    reviews = [];
+    embeddings = new Map();
+    askState = null;
+    jobQueue.clear();
+    toggleModal(false);
+    revokeAudioUrls();
+    entriesContainer.innerHTML = '';
+    unlockError.textContent = '';
+    lockScreen.classList.remove('hidden');
+    unlockPassphrase.focus();
 }
 
-// --- Event Handlers ---
-
 /**
- * Handles form submission for both new and edited entries.
+ * Unlocks the diary with the entered passphrase and loads it.
  * @param {Event} event - The form submission event.
  */
-async function handleFormSubmit(event: Event) {
+async function handleUnlock(event: Event) {
     event.preventDefault();
-    const content = entryContent.value.trim();
-    const userTypedTitle = entryTitle.value.trim();
-    
-    if (!content) return;
-
-    const entryIdToEdit = currentlyEditingEntryId;
-
-    toggleLoader(true);
-    toggleModal(false);
+    if (!lockConfig) return;
 
+    unlockBtn.disabled = true;
+    unlockError.textContent = '';
     try {
-        if (entryIdToEdit) {
-            // Editing an existing entry
-            const entryIndex = entries.findIndex(e => e.id === entryIdToEdit);
-            if (entryIndex > -1) {
-                const existingEntry = entries[entryIndex];
-                
-                // If content is unchanged, just update the title from the user's input.
-                if (existingEntry.content === content) {
-                    entries[entryIndex].title = userTypedTitle;
-                } else {
-                    // If content has changed, generate a new title, as requested.
-                    const newTitle = await generateTitle(content, existingEntry.date);
-                    entries[entryIndex] = {
-                        ...existingEntry,
-                        content: content,
-                        title: newTitle,
-                        coachSummary: undefined // Reset coach summary
-                    };
-                }
-            }
-        } else {
-            // Creating a new entry
-            const date = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
-            // Use user's title if provided, otherwise generate one.
-            const title = userTypedTitle || await generateTitle(content, date);
-            const newEntry: DiaryEntry = {
-                id: Date.now(),
-                date: date,
-                title: title,
-                content: content,
-                status: 'active',
-            };
-            entries.push(newEntry);
-            expandedEntryId = newEntry.id; // Expand the new entry
-        }
-
-        saveEntries();
-        renderApp();
+        const key = await unlock(lockConfig, unlockPassphrase.value);
+        setEncryptionKey(key);
+        isLocked = false;
+        unlockForm.reset();
+        lockScreen.classList.add('hidden');
+        await loadDiaryData();
+        resetAutoLockTimer();
+        handleNavigation();
     } catch (error) {
-        console.error("Failed to save entry:", error);
-        showError("There was a problem saving your entry.");
+        if (!(error instanceof WrongPassphraseError)) {
+            console.error("Failed to unlock diary:", error);
+        }
+        unlockError.textContent = error instanceof Error ? error.message : "Could not unlock your diary.";
+        unlockPassphrase.select();
     } finally {
-        toggleLoader(false);
-        currentlyEditingEntryId = null;
+        unlockBtn.disabled = false;
     }
 }
 
 /**
- * Moves an entry to the trash from the modal.
+ * Restarts the inactivity countdown after user activity.
  */
-function handleDeleteEntry() {
-    if (!currentlyEditingEntryId) return;
-    const entryIndex = entries.findIndex(e => e.id === currentlyEditingEntryId);
-    if (entryIndex > -1) {
-        entries[entryIndex].status = 'trashed';
-        saveEntries();
-        toggleModal(false);
-        renderApp();
-    }
+function resetAutoLockTimer() {
+    if (!lockConfig || isLocked) return;
+    window.clearTimeout(autoLockTimer);
+    autoLockTimer = window.setTimeout(lockDiary, autoLockMinutes * 60 * 1000);
 }
 
 /**
- * Handles the AI Coach button click. Generates and displays the summary.
- * @param {number} id - The ID of the entry.
- * @param {HTMLButtonElement} button - The button element that was clicked.
+ * Moves entries out of the trash.
+ * @param {number[]} ids - The IDs of the entries to restore.
  */
-async function handleAiCoach(id: number, button: HTMLButtonElement) {
-    const entryIndex = entries.findIndex(e => e.id === id);
-    if (entryIndex === -1) return;
-
-    button.textContent = 'Thinking...';
-    button.disabled = true;
-
-    try {
-        const entry = entries[entryIndex];
-        const summary = await getAiCoachSummary(entry.content);
-
-        // Update the entry in our state
-        entries[entryIndex].coachSummary = summary;
-        saveEntries();
-
-        // Re-render the app to show the new summary
-        renderApp();
-
-    } catch (error) {
-        console.error("Failed to get AI coach summary:", error);
-        showError("There was a problem contacting the AI coach.");
-        // Re-render to restore button state
-        renderApp();
-    }
+function restoreEntries(ids: number[]) {
+    if (entryStore.restore(ids).length === 0) return;
+    ids.forEach(id => selectedTrashIds.delete(id));
+    renderApp();
 }
 
 /**
@@ -504,12 +3143,19 @@ async function handleAiCoach(id: number, button: HTMLButtonElement) {
  * @param {number} id - The ID of the entry to restore.
  */
 function handleRestoreEntry(id: number) {
-    const entryIndex = entries.findIndex(e => e.id === id);
-    if (entryIndex > -1) {
-        entries[entryIndex].status = 'active';
-        saveEntries();
-        renderApp();
-    }
+    restoreEntries([id]);
+}
+
+/**
+ * Deletes entries for good, without asking.
+ * @param {number[]} ids - The IDs of the entries to delete.
+ */
+function deleteEntriesPermanently(ids: number[]) {
+    const deleted = entryStore.deletePermanently(ids);
+    if (deleted.length === 0) return;
+    revokeAudioUrls(deleted.flatMap(e => (e.audioClips || []).map(clip => clip.id)));
+    ids.forEach(id => selectedTrashIds.delete(id));
+    renderApp();
 }
 
 /**
@@ -520,41 +3166,303 @@ function handlePermanentDelete(id: number) {
     if (!confirm("Are you sure you want to permanently delete this entry? This action cannot be undone.")) {
         return;
     }
-    entries = entries.filter(e => e.id !== id);
-    saveEntries();
-    renderApp();
+    deleteEntriesPermanently([id]);
+}
+
+/**
+ * Applies a bulk action from the trash toolbar.
+ * @param {'restore' | 'delete' | 'empty'} action - Restore or delete the selected entries, or delete everything in the trash.
+ */
+function handleTrashBulkAction(action: 'restore' | 'delete' | 'empty') {
+    if (action === 'restore') {
+        restoreEntries([...selectedTrashIds]);
+        return;
+    }
+    const ids = action === 'empty'
+        ? entryStore.entries.filter(e => e.status === 'trashed').map(e => e.id)
+        : [...selectedTrashIds];
+    if (ids.length === 0) return;
+    const description = action === 'empty' ? 'everything in the trash' : `${ids.length} ${ids.length === 1 ? 'entry' : 'entries'}`;
+    if (!confirm(`Permanently delete ${description}? This action cannot be undone.`)) return;
+    deleteEntriesPermanently(ids);
+}
+
+/**
+ * Deletes trashed entries older than the retention period. Entries trashed before trashedAt was
+ * recorded start their retention period now rather than being deleted straight away.
+ */
+function purgeExpiredTrash() {
+    const trashedAt = new Date().toISOString();
+    entryStore.save(...entryStore.entries.filter(e => e.status === 'trashed' && !e.trashedAt).map(e => ({ ...e, trashedAt })));
+    entryStore.deletePermanently(findExpiredTrash(entryStore.entries, trashRetentionDays, Date.now()));
+}
+
+/**
+ * Shows a short message at the bottom of the screen, optionally with an action such as Undo.
+ * @param {string} message - The message.
+ * @param {{ label: string; run: () => void }} [action] - The action button.
+ */
+function showToast(message: string, action?: { label: string; run: () => void }) {
+    window.clearTimeout(toastTimer);
+    toastMessage.textContent = message;
+    toastAction = action ? action.run : null;
+    toastActionBtn.textContent = action ? action.label : '';
+    toastActionBtn.classList.toggle('hidden', !action);
+    toast.classList.remove('hidden');
+    toastTimer = window.setTimeout(hideToast, TOAST_DURATION_MS);
+}
+
+/**
+ * Hides the toast and forgets its action.
+ */
+function hideToast() {
+    window.clearTimeout(toastTimer);
+    toast.classList.add('hidden');
+    toastAction = null;
+}
+
+/**
+ * Shows the header notice while offline. The diary itself keeps working; only AI features stop.
+ */
+function renderConnectionStatus() {
+    offlineIndicator.classList.toggle('hidden', navigator.onLine);
+    offlineIndicatorText.textContent = isAiReachable()
+        ? "You're offline. Your diary and the mock AI provider work as usual."
+        : "You're offline. Your diary works as usual, but AI features are unavailable until you reconnect.";
 }
 
+/**
+ * Registers the service worker that caches the app for offline use. Production builds only: the
+ * dev server doesn't serve sw.js. When a new version takes over, offers to reload into it.
+ */
+function registerServiceWorker() {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    const hadController = !!navigator.serviceWorker.controller; // False on first install
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (hadController) showToast("A new version of the app is ready.", { label: 'Reload', run: () => window.location.reload() });
+    });
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+        .catch(error => console.error("Failed to register the service worker:", error));
+}
 
 /**
- * Handles navigation between views based on URL hash. Also resets search.
+ * Handles navigation between views based on URL hash, restoring any filter encoded after '?'.
  */
 function handleNavigation() {
-    const hash = window.location.hash;
+    const previousView = currentView;
+    const [path, query = ''] = window.location.hash.split('?');
+    const hash = path;
     if (hash === '#trash') {
         currentView = 'trash';
+        purgeExpiredTrash(); // The app may have been open since the last purge
+    } else if (hash === '#calendar') {
+        currentView = 'calendar';
+    } else if (hash === '#on-this-day') {
+        currentView = 'on-this-day';
+    } else if (hash === '#insights') {
+        currentView = 'insights';
+    } else if (hash === '#reviews') {
+        currentView = 'reviews';
+    } else if (hash === '#goals') {
+        currentView = 'goals';
+    } else if (hash === '#habits') {
+        currentView = 'habits';
+    } else if (hash === '#settings') {
+        currentView = 'settings';
     } else {
         currentView = 'diary';
     }
     
-    // Reset search and expansion when changing views
-    if (searchInput) searchInput.value = '';
-    searchQuery = '';
-    expandedEntryId = null;
+    window.clearTimeout(searchDebounceTimer);
+    activeFilter = parseFilterQuery(query);
+    if (searchInput) searchInput.value = activeFilter.text;
+
+    // Reset expansion when changing views
+    if (currentView !== previousView) {
+        expandedEntryId = null;
+    }
     
     renderApp();
 }
 
 // --- Event Listeners ---
 addEntryBtn?.addEventListener('click', () => toggleModal(true));
-cancelBtn?.addEventListener('click', () => toggleModal(false));
+cancelBtn?.addEventListener('click', requestCloseModal);
+toastActionBtn?.addEventListener('click', () => {
+    const action = toastAction;
+    hideToast();
+    action?.();
+});
+entryTitle?.addEventListener('input', scheduleDraftSave);
+entryContent?.addEventListener('input', scheduleDraftSave);
+restoreDraftBtn?.addEventListener('click', restoreDraft);
+discardDraftBtn?.addEventListener('click', discardDraft);
 deleteBtn?.addEventListener('click', handleDeleteEntry);
+historyPanel?.addEventListener('toggle', () => {
+    if (historyPanel.open) loadEntryHistory();
+});
+historyContent?.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-revision-id]');
+    if (!button) return;
+    const revisionId = Number(button.dataset.revisionId);
+    if (button.classList.contains('restore-revision-btn')) {
+        restoreRevision(revisionId, false);
+    } else if (button.classList.contains('recover-coaching-btn')) {
+        restoreRevision(revisionId, true);
+    } else {
+        selectedRevisionId = revisionId;
+        renderEntryHistory();
+    }
+});
 entryForm?.addEventListener('submit', handleFormSubmit);
+suggestMoodBtn?.addEventListener('click', handleSuggestMood);
+entryTemplateSelect?.addEventListener('change', () => applyJournalTemplate(entryTemplateSelect.value));
+dailyPromptBtn?.addEventListener('click', () => handleDailyPrompt(false));
+dailyPromptCard?.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest('button[data-prompt-action]') as HTMLButtonElement;
+    if (button) handleDailyPromptAction(button.dataset.promptAction as string);
+});
+recordBtn?.addEventListener('click', () => recording ? stopRecording() : startRecording());
+keepAudioCheckbox?.addEventListener('change', () => {
+    keepAudioClips = keepAudioCheckbox.checked;
+    localStorage.setItem('keepAudioClips', String(keepAudioClips));
+});
+modalAudioClipsList?.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest('button[data-clip-action]') as HTMLButtonElement;
+    if (button) handleAudioClipAction(button.dataset.clipAction as string, Number(button.dataset.clipId));
+});
+writeTab?.addEventListener('click', () => {
+    setEditorTab('write');
+    entryContent.focus();
+});
+previewTab?.addEventListener('click', () => setEditorTab('preview'));
+entryEmotions?.addEventListener('input', renderEmotionChips);
+emotionChips?.addEventListener('click', (e) => {
+    const chip = (e.target as HTMLElement).closest('button[data-emotion]') as HTMLButtonElement;
+    if (chip) toggleEmotion(chip.dataset.emotion as string);
+});
+suggestTagsBtn?.addEventListener('click', handleSuggestTags);
+entryTagInput?.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' || e.key === ',') {
+        e.preventDefault(); // Don't submit the entry
+        addModalTag(entryTagInput.value);
+        entryTagInput.value = '';
+    } else if (e.key === 'Backspace' && !entryTagInput.value && modalTags.length > 0) {
+        modalTags.pop();
+        renderModalTags();
+    }
+});
+entryTagsList?.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest('button[data-remove-tag]') as HTMLButtonElement;
+    if (!button) return;
+    modalTags = modalTags.filter(tag => tag !== button.dataset.removeTag);
+    renderModalTags();
+});
+tagSuggestionsList?.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest('button[data-add-tag]') as HTMLButtonElement;
+    if (button) addModalTag(button.dataset.addTag as string);
+});
 
 // Delegated event listener for main content area
 entriesContainer?.addEventListener('click', (e) => {
     const target = e.target as HTMLElement;
 
+    // --- Handle Calendar Navigation ---
+    const calendarButton = target.closest('.calendar-nav-btn, button[data-date]') as HTMLButtonElement;
+    if (calendarButton) {
+        if (calendarButton.dataset.monthOffset) {
+            calendarMonth = shiftMonth(calendarMonth, Number(calendarButton.dataset.monthOffset));
+        } else if (calendarButton.dataset.date) {
+            selectedCalendarDate = calendarButton.dataset.date;
+            calendarMonth = selectedCalendarDate.slice(0, 7);
+            expandedEntryId = null;
+        }
+        renderApp();
+        return;
+    }
+
+    // --- Handle Tag and Folder Filters ---
+    const filterChip = target.closest('button[data-filter-tag], button[data-filter-folder]') as HTMLButtonElement;
+    if (filterChip) {
+        e.stopPropagation();
+        handleFilterChip({ tag: filterChip.dataset.filterTag, folder: filterChip.dataset.filterFolder });
+        return;
+    }
+    if (target.closest('#ask-clear-btn')) {
+        askState = null;
+        renderApp();
+        return;
+    }
+    if (target.closest('#filter-clear-btn')) {
+        setFilter({ ...EMPTY_FILTER, text: activeFilter.text });
+        return;
+    }
+
+    // --- Handle Reviews ---
+    const reviewsPeriodButton = target.closest('button[data-reviews-period]') as HTMLButtonElement;
+    if (reviewsPeriodButton) {
+        reviewsPeriod = reviewsPeriodButton.dataset.reviewsPeriod as Review['period'];
+        renderApp();
+        return;
+    }
+    const reviewButton = target.closest('button[data-review-start]') as HTMLButtonElement;
+    if (reviewButton) {
+        handleGenerateReview(reviewButton.dataset.reviewStart as string);
+        return;
+    }
+
+    // --- Handle Insights Period Toggle ---
+    const periodButton = target.closest('button[data-insights-period]') as HTMLButtonElement;
+    if (periodButton) {
+        insightsPeriod = periodButton.dataset.insightsPeriod as InsightsPeriod;
+        renderApp();
+        return;
+    }
+
+    // --- Handle Trash Bulk Actions ---
+    const trashButton = target.closest('button[data-trash-action]') as HTMLButtonElement;
+    if (trashButton) {
+        handleTrashBulkAction(trashButton.dataset.trashAction as 'restore' | 'delete' | 'empty');
+        return;
+    }
+
+    // --- Handle Job Retries ---
+    const retryButton = target.closest('button[data-job-id]') as HTMLButtonElement;
+    if (retryButton) {
+        jobQueue.retry(Number(retryButton.dataset.jobId));
+        return;
+    }
+
+    // --- Handle Goal Button Clicks ---
+    const goalButton = target.closest('button[data-goal-id]') as HTMLButtonElement;
+    if (goalButton) {
+        const goalId = Number(goalButton.dataset.goalId);
+        if (isNaN(goalId)) return;
+
+        if (goalButton.classList.contains('goal-done-btn')) {
+            handleGoalStatus(goalId, 'done');
+        } else if (goalButton.classList.contains('goal-drop-btn')) {
+            handleGoalStatus(goalId, 'dropped');
+        } else if (goalButton.classList.contains('goal-reopen-btn')) {
+            handleGoalStatus(goalId, 'open');
+        }
+        return;
+    }
+
+    // --- Handle Habit Button Clicks ---
+    const habitButton = target.closest('button[data-habit-id]') as HTMLButtonElement;
+    if (habitButton) {
+        const habitId = Number(habitButton.dataset.habitId);
+        if (isNaN(habitId)) return;
+
+        if (habitButton.classList.contains('habit-archive-btn')) {
+            handleToggleHabitArchived(habitId);
+        } else if (habitButton.classList.contains('habit-delete-btn')) {
+            handleDeleteHabit(habitId);
+        }
+        return;
+    }
+
     // --- Handle Button Clicks ---
     const button = target.closest('button[data-id]') as HTMLButtonElement;
     if (button) {
@@ -566,7 +3474,9 @@ entriesContainer?.addEventListener('click', (e) => {
         if (button.classList.contains('edit-btn')) {
             openEditModal(id);
         } else if (button.classList.contains('ai-coach-btn')) {
-            handleAiCoach(id, button);
+            handleAiCoach(id);
+        } else if (button.classList.contains('coach-context-link') || button.classList.contains('related-entry-link')) {
+            handleShowContextEntry(id);
         } else if (button.classList.contains('restore-btn')) {
             handleRestoreEntry(id);
         } else if (button.classList.contains('delete-perm-btn')) {
@@ -577,7 +3487,7 @@ entriesContainer?.addEventListener('click', (e) => {
 
     // --- Handle Header Click for expand/collapse ---
     const header = target.closest('.entry-header');
-    if (header && currentView === 'diary') {
+    if (header && (currentView === 'diary' || currentView === 'calendar' || currentView === 'on-this-day')) {
         const id = Number((header as HTMLElement).dataset.id);
         if (!isNaN(id)) {
             expandedEntryId = expandedEntryId === id ? null : id;
@@ -586,35 +3496,228 @@ entriesContainer?.addEventListener('click', (e) => {
     }
 });
 
+// Settings forms
+entriesContainer?.addEventListener('submit', (e) => {
+    const form = e.target as HTMLFormElement;
+    if (form.id === 'ai-settings-form') {
+        e.preventDefault();
+        handleSaveAiSettings(form);
+    } else if (form.id === 'coaching-settings-form') {
+        e.preventDefault();
+        handleSaveCoachingSettings(form);
+    } else if (form.id === 'lock-settings-form') {
+        e.preventDefault();
+        handleLockSettingsSubmit(form);
+    } else if (form.id === 'import-form') {
+        e.preventDefault();
+        handleImport(form);
+    } else if (form.id === 'habit-form') {
+        e.preventDefault();
+        handleAddHabit(form);
+    } else if (form.id === 'filter-bar') {
+        e.preventDefault(); // Filters apply on change
+    } else if (form.id === 'ask-form') {
+        e.preventDefault();
+        handleAskDiary((form.elements.namedItem('question') as HTMLInputElement).value);
+    }
+});
+
+entriesContainer?.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest('#ai-test-btn, #reset-templates-btn, #lock-now-btn, #lock-remove-btn, .export-btn, #import-cancel-btn') as HTMLButtonElement;
+    if (!button) return;
+    if (button.classList.contains('export-btn')) {
+        handleExport(button.dataset.export as string);
+    } else if (button.id === 'import-cancel-btn') {
+        pendingImport = null;
+        renderApp();
+    } else if (button.id === 'ai-test-btn') {
+        handleTestAiSettings(button.form as HTMLFormElement, button);
+    } else if (button.id === 'reset-templates-btn') {
+        // Only fills in the defaults; nothing changes until the form is saved
+        (document.getElementById('coach-template') as HTMLTextAreaElement).value = DEFAULT_COACH_TEMPLATE;
+        (document.getElementById('title-template') as HTMLTextAreaElement).value = DEFAULT_TITLE_TEMPLATE;
+    } else if (button.id === 'lock-now-btn') {
+        lockDiary();
+    } else if (button.id === 'lock-remove-btn') {
+        handleRemoveLock(button.form as HTMLFormElement);
+    }
+});
+
+entriesContainer?.addEventListener('change', (e) => {
+    const target = e.target as HTMLInputElement;
+    if (target.id === 'import-file') handleImportFileChosen(target);
+});
+
+// Filter bar fields
+entriesContainer?.addEventListener('change', (e) => {
+    const field = (e.target as HTMLElement).dataset?.filterField;
+    if (!field) return;
+    const value = (e.target as HTMLInputElement | HTMLSelectElement).value || undefined;
+    setFilter({ ...activeFilter, [field]: field === 'mood' && value ? Number(value) : value });
+});
+
+// Trash selection and retention
+entriesContainer?.addEventListener('change', (e) => {
+    const target = e.target as HTMLInputElement;
+    if (target.classList.contains('trash-select')) {
+        const id = Number(target.dataset.trashId);
+        if (target.checked) selectedTrashIds.add(id); else selectedTrashIds.delete(id);
+        renderApp();
+    } else if (target.id === 'trash-select-all') {
+        selectedTrashIds = target.checked
+            ? new Set(applyFilter(entryStore.entries.filter(e => e.status === 'trashed'), activeFilter, entryStore.searchIndex).map(e => e.id))
+            : new Set();
+        renderApp();
+    } else if (target.id === 'trash-retention') {
+        const expiredCount = findExpiredTrash(entryStore.entries, Number(target.value), Date.now()).length;
+        if (expiredCount > 0 && !confirm(`${expiredCount} ${expiredCount === 1 ? 'entry has' : 'entries have'} been in the trash longer than that and will be permanently deleted now. Continue?`)) {
+            target.value = String(trashRetentionDays);
+            return;
+        }
+        trashRetentionDays = Number(target.value);
+        localStorage.setItem('trashRetentionDays', String(trashRetentionDays));
+        purgeExpiredTrash();
+        renderApp();
+    }
+});
+
+entriesContainer?.addEventListener('change', (e) => {
+    const select = e.target as HTMLSelectElement;
+    if (select.id !== 'lock-timeout') return;
+    autoLockMinutes = Number(select.value);
+    localStorage.setItem('autoLockMinutes', String(autoLockMinutes));
+    resetAutoLockTimer();
+});
+
+entriesContainer?.addEventListener('change', (e) => {
+    const select = e.target as HTMLSelectElement;
+    if (select.id !== 'ai-provider') return;
+    // Show only the fields the chosen provider uses, and suggest its default model
+    const form = select.form as HTMLFormElement;
+    const provider = select.value as AiProviderId;
+    form.querySelector('[data-provider-field="key"]')?.classList.toggle('hidden', provider === 'mock');
+    form.querySelector('[data-provider-field="base-url"]')?.classList.toggle('hidden', provider !== 'openai');
+    const modelInput = form.querySelector('#ai-model') as HTMLInputElement;
+    modelInput.value = DEFAULT_MODELS[provider];
+    modelInput.placeholder = DEFAULT_MODELS[provider];
+    // A key only goes to the provider it was saved for, so it can't leak to another server
+    const keyInput = form.querySelector('#ai-api-key') as HTMLInputElement;
+    keyInput.value = provider === aiSettings.provider ? aiSettings.apiKey : '';
+    keyInput.placeholder = provider === 'openai' ? 'Optional for local servers' : '';
+});
+
+// Coach reply submissions
+entriesContainer?.addEventListener('submit', (e) => {
+    const form = (e.target as HTMLElement).closest('.coach-reply-form') as HTMLFormElement;
+    if (!form) return;
+    e.preventDefault();
+    const id = Number(form.dataset.id);
+    const input = form.querySelector('.coach-reply-input') as HTMLTextAreaElement;
+    if (!isNaN(id) && input) handleCoachReply(id, input.value);
+});
+
+// Send coach replies with Ctrl/Cmd+Enter
+entriesContainer?.addEventListener('keydown', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.classList.contains('coach-reply-input') && e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        (target.closest('.coach-reply-form') as HTMLFormElement)?.requestSubmit();
+    }
+});
+
+// Goal due date edits
+entriesContainer?.addEventListener('change', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.classList.contains('goal-due-input')) {
+        const input = target as HTMLInputElement;
+        const goalId = Number(input.dataset.goalId);
+        if (!isNaN(goalId)) handleGoalDueDate(goalId, input.value);
+    }
+});
+
 
 // Search listeners
-searchForm?.addEventListener('submit', (e) => e.preventDefault()); // Prevent page reload
+searchForm?.addEventListener('submit', (e) => {
+    e.preventDefault(); // Prevent page reload
+    window.clearTimeout(searchDebounceTimer);
+    setFilter({ ...activeFilter, text: searchInput.value });
+});
 searchInput?.addEventListener('input', () => {
-    searchQuery = searchInput.value;
-    renderApp(); // Re-render on every keystroke
+    // Wait for a pause in typing rather than re-rendering on every keystroke
+    window.clearTimeout(searchDebounceTimer);
+    searchDebounceTimer = window.setTimeout(() => setFilter({ ...activeFilter, text: searchInput.value }), SEARCH_DEBOUNCE_MS);
 });
 
 // Navigation button listeners
 navDiaryBtn?.addEventListener('click', () => window.location.hash = 'diary');
 navTrashBtn?.addEventListener('click', () => window.location.hash = 'trash');
+navGoalsBtn?.addEventListener('click', () => window.location.hash = 'goals');
+navHabitsBtn?.addEventListener('click', () => window.location.hash = 'habits');
+navCalendarBtn?.addEventListener('click', () => window.location.hash = 'calendar');
+navInsightsBtn?.addEventListener('click', () => window.location.hash = 'insights');
+navSettingsBtn?.addEventListener('click', () => window.location.hash = 'settings');
 window.addEventListener('hashchange', handleNavigation);
 
 // Close modal if user clicks the overlay
 modalOverlay?.addEventListener('click', (event) => {
     if (event.target === modalOverlay) {
-        toggleModal(false);
+        requestCloseModal();
     }
 });
 
 // Close modal with Escape key
 document.addEventListener('keydown', (event) => {
     if (event.key === 'Escape' && !modalOverlay.classList.contains('hidden')) {
-        toggleModal(false);
+        requestCloseModal();
     }
 });
 
+// Save the draft and warn before the tab closes with unsaved writing or recordings
+window.addEventListener('beforeunload', (event) => {
+    if (!hasUnsavedChanges() && pendingAudio.size === 0 && !recording) return;
+    saveDraftNow();
+    event.preventDefault();
+    event.returnValue = ''; // Needed by some browsers to show the prompt
+});
+// Background jobs wait while offline and pick up again on reconnect
+window.addEventListener('online', () => {
+    renderConnectionStatus();
+    jobQueue.resume();
+    handleJobsChanged();
+});
+window.addEventListener('offline', () => {
+    renderConnectionStatus();
+    handleJobsChanged();
+});
+// Mobile browsers may discard a backgrounded tab without a beforeunload
+document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden' && draftSaveTimer !== undefined) saveDraftNow();
+});
+
+// Diary lock
+unlockForm?.addEventListener('submit', handleUnlock);
+['pointerdown', 'keydown', 'scroll', 'touchstart'].forEach(eventName => {
+    document.addEventListener(eventName, resetAutoLockTimer, { passive: true });
+});
+
 // --- Initial Load ---
-document.addEventListener('DOMContentLoaded', () => {
-    loadEntries();
+document.addEventListener('DOMContentLoaded', async () => {
+    setBlockedHandler(() => showToast("Close the diary in your other tabs to finish updating it."));
+    registerServiceWorker();
+    renderConnectionStatus();
+    renderEmotionChips();
+    try {
+        lockConfig = await getLockConfig();
+    } catch (error) {
+        console.error("Failed to read diary lock:", error);
+        showError(error instanceof StorageError ? error.message : "Could not open your diary.");
+        return;
+    }
+    if (lockConfig) {
+        // Nothing is loaded or rendered until the passphrase is entered
+        lockDiary();
+        return;
+    }
+    await loadDiaryData();
     handleNavigation();
 });
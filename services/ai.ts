@@ -0,0 +1,329 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { LOCAL_EMBEDDING_MODEL, createLocalEmbedding } from "./embeddings";
+
+// --- Types ---
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * Runtime AI configuration, edited from the settings screen.
+ */
+export interface AiSettings {
+    provider: AiProviderId;
+    model: string;
+    apiKey: string;
+    baseUrl: string; // Only used by the OpenAI-compatible provider
+}
+
+/**
+ * A single turn in a conversation with the model.
+ */
+export interface AiMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface AiRequestOptions {
+    systemInstruction?: string;
+    responseSchema?: Schema; // Ask for JSON matching this schema
+}
+
+/**
+ * The interface every AI backend implements. The rest of the app only talks to this.
+ */
+export interface AiProvider {
+    readonly id: AiProviderId;
+    generate(input: string | AiMessage[], options?: AiRequestOptions): Promise<string>;
+    generateStream(input: string | AiMessage[], options?: AiRequestOptions): AsyncGenerator<string>;
+    readonly embeddingModel: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_MODELS: Record<AiProviderId, string> = {
+    gemini: 'gemini-2.5-flash',
+    openai: 'llama3.1',
+    mock: 'mock',
+};
+
+const EMBEDDING_MODELS: Record<AiProviderId, string> = {
+    gemini: 'text-embedding-004',
+    openai: 'nomic-embed-text',
+    mock: LOCAL_EMBEDDING_MODEL,
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+const SETTINGS_KEY = 'aiSettings';
+
+// --- Settings ---
+
+/**
+ * Loads the AI settings from localStorage, falling back to Gemini with the build-time key.
+ * @returns {AiSettings} The settings.
+ */
+export function loadAiSettings(): AiSettings {
+    const defaults: AiSettings = {
+        provider: 'gemini',
+        model: DEFAULT_MODELS.gemini,
+        apiKey: process.env.API_KEY || '',
+        baseUrl: DEFAULT_OPENAI_BASE_URL,
+    };
+    try {
+        const storedSettings = localStorage.getItem(SETTINGS_KEY);
+        if (storedSettings) {
+            const parsed = JSON.parse(storedSettings);
+            return {
+                ...defaults,
+                ...parsed,
+                // An empty stored key means "use the build-time key" for Gemini
+                apiKey: parsed.apiKey || (parsed.provider === 'gemini' ? defaults.apiKey : ''),
+            };
+        }
+    } catch (error) {
+        console.error("Failed to load AI settings from localStorage:", error);
+    }
+    return defaults;
+}
+
+/**
+ * Saves the AI settings to localStorage.
+ * @param {AiSettings} settings - The settings to save.
+ */
+export function saveAiSettings(settings: AiSettings) {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Failed to save AI settings to localStorage:", error);
+    }
+}
+
+/**
+ * Creates the provider described by the settings.
+ * @param {AiSettings} settings - The settings.
+ * @returns {AiProvider} The provider.
+ */
+export function createAiProvider(settings: AiSettings): AiProvider {
+    switch (settings.provider) {
+        case 'openai':
+            return new OpenAiCompatibleProvider(settings);
+        case 'mock':
+            return new MockProvider();
+        case 'gemini':
+        default:
+            return new GeminiProvider(settings);
+    }
+}
+
+/**
+ * Normalizes a prompt or conversation into a list of messages.
+ * @param {string | AiMessage[]} input - A single user prompt or a conversation.
+ * @returns {AiMessage[]} The messages.
+ */
+function toMessages(input: string | AiMessage[]): AiMessage[] {
+    return typeof input === 'string' ? [{ role: 'user', text: input }] : input;
+}
+
+// --- Gemini ---
+
+class GeminiProvider implements AiProvider {
+    readonly id = 'gemini';
+    readonly embeddingModel = EMBEDDING_MODELS.gemini;
+    private ai: GoogleGenAI;
+    private model: string;
+
+    constructor(settings: AiSettings) {
+        this.ai = new GoogleGenAI({ apiKey: settings.apiKey });
+        this.model = settings.model || DEFAULT_MODELS.gemini;
+    }
+
+    private buildRequest(input: string | AiMessage[], options: AiRequestOptions = {}) {
+        return {
+            model: this.model,
+            contents: toMessages(input).map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+            config: {
+                systemInstruction: options.systemInstruction,
+                responseMimeType: options.responseSchema ? 'application/json' : undefined,
+                responseSchema: options.responseSchema,
+            },
+        };
+    }
+
+    async generate(input: string | AiMessage[], options?: AiRequestOptions): Promise<string> {
+        const response = await this.ai.models.generateContent(this.buildRequest(input, options));
+        return response.text ?? '';
+    }
+
+    async *generateStream(input: string | AiMessage[], options?: AiRequestOptions): AsyncGenerator<string> {
+        const stream = await this.ai.models.generateContentStream(this.buildRequest(input, options));
+        for await (const chunk of stream) {
+            if (chunk.text) yield chunk.text;
+        }
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await this.ai.models.embedContent({ model: this.embeddingModel, contents: texts });
+        const vectors = (response.embeddings || []).map(embedding => embedding.values || []);
+        if (vectors.length !== texts.length) {
+            throw new Error(`Expected ${texts.length} embeddings but got ${vectors.length}.`);
+        }
+        return vectors;
+    }
+}
+
+// --- OpenAI-compatible (OpenAI, Ollama, llama.cpp server, ...) ---
+
+class OpenAiCompatibleProvider implements AiProvider {
+    readonly id = 'openai';
+    readonly embeddingModel = EMBEDDING_MODELS.openai;
+    private settings: AiSettings;
+
+    constructor(settings: AiSettings) {
+        this.settings = settings;
+    }
+
+    private async request(input: string | AiMessage[], options: AiRequestOptions = {}, stream: boolean): Promise<Response> {
+        const messages: { role: string; content: string }[] = [];
+        let systemInstruction = options.systemInstruction || '';
+        if (options.responseSchema) {
+            // Most compatible servers only support free-form JSON mode, so describe the shape in the prompt.
+            systemInstruction += `${systemInstruction ? '\n\n' : ''}Respond only with JSON matching this schema: ${JSON.stringify(options.responseSchema)}`;
+        }
+        if (systemInstruction) {
+            messages.push({ role: 'system', content: systemInstruction });
+        }
+        toMessages(input).forEach(message => {
+            messages.push({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text });
+        });
+
+        return this.post('/chat/completions', {
+            model: this.settings.model || DEFAULT_MODELS.openai,
+            messages,
+            stream,
+            response_format: options.responseSchema ? { type: 'json_object' } : undefined,
+        });
+    }
+
+    private async post(path: string, body: unknown): Promise<Response> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.settings.apiKey) {
+            headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+        }
+        const baseUrl = (this.settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            throw new Error(`AI request failed with status ${response.status}: ${await response.text()}`);
+        }
+        return response;
+    }
+
+    async generate(input: string | AiMessage[], options?: AiRequestOptions): Promise<string> {
+        const response = await this.request(input, options, false);
+        const data = await response.json();
+        return data.choices?.[0]?.message?.content ?? '';
+    }
+
+    async *generateStream(input: string | AiMessage[], options?: AiRequestOptions): AsyncGenerator<string> {
+        const response = await this.request(input, options, true);
+        if (!response.body) {
+            throw new Error("AI response has no body to stream.");
+        }
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += value;
+
+            // Server-sent events: one "data: {...}" line per chunk
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                const data = line.replace(/^data:\s*/, '').trim();
+                if (!data || !line.startsWith('data:')) continue;
+                if (data === '[DONE]') return;
+                const text = JSON.parse(data).choices?.[0]?.delta?.content;
+                if (text) yield text;
+            }
+        }
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await this.post('/embeddings', { model: this.embeddingModel, input: texts });
+        const data = await response.json();
+        // Results may come back out of order; each carries the index of its input
+        const vectors: number[][] = [];
+        (data.data || []).forEach((item: { index: number; embedding: number[] }) => vectors[item.index] = item.embedding);
+        if (vectors.length !== texts.length || vectors.some(vector => !vector)) {
+            throw new Error(`Expected ${texts.length} embeddings but got ${vectors.filter(Boolean).length}.`);
+        }
+        return vectors;
+    }
+}
+
+// --- Mock (tests and offline use) ---
+
+/**
+ * A deterministic provider that never touches the network. Free-text requests get a reply built
+ * from the start of the last paragraph of the last message; JSON requests get the smallest value
+ * that satisfies the schema. Embeddings use the local hashing embedder.
+ */
+class MockProvider implements AiProvider {
+    readonly id = 'mock';
+    readonly embeddingModel = EMBEDDING_MODELS.mock;
+
+    async generate(input: string | AiMessage[], options: AiRequestOptions = {}): Promise<string> {
+        if (options.responseSchema) {
+            return JSON.stringify(mockValueForSchema(options.responseSchema));
+        }
+        const messages = toMessages(input);
+        const lastMessage = messages[messages.length - 1]?.text || '';
+        const paragraphs = lastMessage.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+        const words = (paragraphs[paragraphs.length - 1] || '').split(/\s+/).filter(Boolean);
+        return words.slice(0, 8).join(' ') || 'Mock response';
+    }
+
+    async *generateStream(input: string | AiMessage[], options?: AiRequestOptions): AsyncGenerator<string> {
+        const text = await this.generate(input, options);
+        for (const word of text.split(/(?<=\s)/)) {
+            yield word;
+        }
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(createLocalEmbedding);
+    }
+}
+
+/**
+ * Builds the smallest value that satisfies a response schema.
+ * @param {Schema} schema - The schema.
+ * @returns {unknown} The value.
+ */
+function mockValueForSchema(schema: Schema): unknown {
+    switch (schema.type) {
+        case Type.OBJECT: {
+            const value: Record<string, unknown> = {};
+            (schema.required || []).forEach(key => {
+                const property = schema.properties?.[key];
+                if (property) value[key] = mockValueForSchema(property);
+            });
+            return value;
+        }
+        case Type.ARRAY:
+            return [];
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return 0;
+        case Type.BOOLEAN:
+            return false;
+        default:
+            return '';
+    }
+}
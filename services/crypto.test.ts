@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { WrongPassphraseError, createLock, decryptJson, encryptJson, unlock } from './crypto';
+
+describe('passphrase lock', () => {
+    it('round-trips values through encryption', async () => {
+        const { key } = await createLock('correct horse');
+        const value = { id: 1, content: 'Walked by the river.', tags: ['outdoors'] };
+        const payload = await encryptJson(key, value);
+        expect(payload.data).not.toContain('river');
+        await expect(decryptJson(key, payload)).resolves.toEqual(value);
+    });
+
+    it('unlocks with the passphrase the lock was created with', async () => {
+        const { config, key } = await createLock('correct horse');
+        const payload = await encryptJson(key, 'secret');
+        const unlocked = await unlock(config, 'correct horse');
+        await expect(decryptJson(unlocked, payload)).resolves.toBe('secret');
+    });
+
+    it('rejects a wrong passphrase', async () => {
+        const { config } = await createLock('correct horse');
+        await expect(unlock(config, 'battery staple')).rejects.toBeInstanceOf(WrongPassphraseError);
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * AES-GCM ciphertext with the IV it was encrypted under, both base64-encoded for storage.
+ */
+export interface EncryptedPayload {
+    iv: string;
+    data: string;
+}
+
+/**
+ * Everything needed to re-derive the diary key from a passphrase and check it is correct.
+ * Stored unencrypted; contains no secrets.
+ */
+export interface LockConfig {
+    salt: string;
+    iterations: number;
+    verifier: EncryptedPayload; // VERIFIER_TEXT encrypted with the derived key
+}
+
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'ai-diary-lock';
+
+/**
+ * Raised when a passphrase does not match the stored lock configuration.
+ */
+export class WrongPassphraseError extends Error {
+    constructor() {
+        super("That passphrase is incorrect.");
+        this.name = 'WrongPassphraseError';
+    }
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2-SHA256.
+ * @param {string} passphrase - The user's passphrase.
+ * @param {string} salt - The base64-encoded salt.
+ * @param {number} iterations - The PBKDF2 iteration count.
+ * @returns {Promise<CryptoKey>} The derived, non-extractable key.
+ */
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+}
+
+/**
+ * Encrypts a JSON-serializable value.
+ * @param {CryptoKey} key - The AES-GCM key.
+ * @param {unknown} value - The value to encrypt.
+ * @returns {Promise<EncryptedPayload>} The ciphertext and IV.
+ */
+export async function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(JSON.stringify(value));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypts a value produced by encryptJson.
+ * @param {CryptoKey} key - The AES-GCM key.
+ * @param {EncryptedPayload} payload - The ciphertext and IV.
+ * @returns {Promise<T>} The decrypted value.
+ */
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/**
+ * Creates a new lock configuration (fresh salt) for a passphrase.
+ * @param {string} passphrase - The new passphrase.
+ * @returns {Promise<{ config: LockConfig; key: CryptoKey }>} The configuration to store and the derived key.
+ */
+export async function createLock(passphrase: string): Promise<{ config: LockConfig; key: CryptoKey }> {
+    const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const verifier = await encryptJson(key, VERIFIER_TEXT);
+    return { config: { salt, iterations: PBKDF2_ITERATIONS, verifier }, key };
+}
+
+/**
+ * Derives the key for a stored lock configuration, checking the passphrase against its verifier.
+ * @param {LockConfig} config - The stored lock configuration.
+ * @param {string} passphrase - The passphrase to try.
+ * @returns {Promise<CryptoKey>} The key.
+ * @throws {WrongPassphraseError} If the passphrase is wrong.
+ */
+export async function unlock(config: LockConfig, passphrase: string): Promise<CryptoKey> {
+    const key = await deriveKey(passphrase, config.salt, config.iterations);
+    try {
+        if (await decryptJson<string>(key, config.verifier) === VERIFIER_TEXT) {
+            return key;
+        }
+    } catch {
+        // AES-GCM authentication fails for the wrong key
+    }
+    throw new WrongPassphraseError();
+}
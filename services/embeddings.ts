@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry, EntryEmbedding } from "../types";
+import { tokenize } from "./search";
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-256';
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * FNV-1a hash of a string, as an unsigned 32-bit integer.
+ * @param {string} text - The text.
+ * @returns {number} The hash.
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Fingerprints the text an embedding was made from, so stale embeddings can be spotted after an edit.
+ * @param {string} text - The embedded text.
+ * @returns {string} A short hex hash.
+ */
+export function hashContent(text: string): string {
+    return fnv1a(text).toString(16);
+}
+
+/**
+ * The text of an entry that gets embedded.
+ * @param {DiaryEntry} entry - The entry.
+ * @returns {string} The title and content.
+ */
+export function getEmbeddingText(entry: DiaryEntry): string {
+    return `${entry.title}\n${entry.content}`;
+}
+
+/**
+ * Scales a vector to unit length so cosine similarity is a dot product.
+ * @param {number[]} vector - The vector.
+ * @returns {number[]} The normalized vector (all zeros stays all zeros).
+ */
+function normalize(vector: number[]): number[] {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+/**
+ * Embeds text without a model, by hashing words and word pairs into a fixed-size vector.
+ * Much weaker than a real embedding model, but deterministic and offline, so it works in tests
+ * and when the provider has no embedding endpoint.
+ * @param {string} text - The text.
+ * @returns {number[]} A unit-length vector.
+ */
+export function createLocalEmbedding(text: string): number[] {
+    const vector = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = tokenize(text);
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+    features.forEach(feature => {
+        const hash = fnv1a(feature);
+        // The top bit picks the sign so unrelated features tend to cancel out rather than pile up
+        vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    });
+    return normalize(vector);
+}
+
+/**
+ * Cosine similarity between two vectors of the same length.
+ * @param {number[]} a - The first vector.
+ * @param {number[]} b - The second vector.
+ * @returns {number} The similarity, from -1 to 1 (0 if either vector is empty).
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Checks whether a stored embedding still matches an entry and the current embedding model.
+ * @param {EntryEmbedding | undefined} embedding - The stored embedding.
+ * @param {DiaryEntry} entry - The entry.
+ * @param {string} model - The embedding model in use.
+ * @returns {boolean} True if the embedding can be used as-is.
+ */
+export function isEmbeddingCurrent(embedding: EntryEmbedding | undefined, entry: DiaryEntry, model: string): boolean {
+    return !!embedding && embedding.model === model && embedding.contentHash === hashContent(getEmbeddingText(entry));
+}
+
+/**
+ * Ranks entries by similarity to a query vector. Only embeddings made by the same model are comparable;
+ * for the local model, missing embeddings are computed on the fly.
+ * @param {number[]} queryVector - The query embedding.
+ * @param {string} model - The model that produced the query embedding.
+ * @param {DiaryEntry[]} candidates - The entries to rank.
+ * @param {Map<number, EntryEmbedding>} embeddings - Stored embeddings by entry ID.
+ * @returns {{ entry: DiaryEntry; score: number }[]} The candidates with a comparable embedding, most similar first.
+ */
+export function rankBySimilarity(queryVector: number[], model: string, candidates: DiaryEntry[], embeddings: Map<number, EntryEmbedding>): { entry: DiaryEntry; score: number }[] {
+    return candidates
+        .map(entry => {
+            const stored = embeddings.get(entry.id);
+            let vector: number[] | null = null;
+            if (stored && stored.model === model) {
+                vector = stored.vector;
+            } else if (model === LOCAL_EMBEDDING_MODEL) {
+                vector = createLocalEmbedding(getEmbeddingText(entry));
+            }
+            return vector ? { entry, score: cosineSimilarity(queryVector, vector) } : null;
+        })
+        .filter((result): result is { entry: DiaryEntry; score: number } => result !== null)
+        .sort((a, b) => b.score - a.score);
+}
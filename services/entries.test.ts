@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it, vi } from 'vitest';
+import { DiaryEntry } from '../types';
+import { EntryInput, EntryStore, createEntry, editEntry, normalizeEntry, parseEmotions } from './entries';
+
+const NOW = new Date('2025-03-14T09:30:00.000Z');
+const LATER = new Date('2025-03-15T18:00:00.000Z');
+
+function input(overrides: Partial<EntryInput> = {}): EntryInput {
+    return { title: '', content: 'Went for a long walk by the river.', entryDate: '2025-03-14', details: {}, ...overrides };
+}
+
+function createStore() {
+    const persist = vi.fn();
+    const remove = vi.fn();
+    return { store: new EntryStore({ persist, remove }), persist, remove };
+}
+
+describe('normalizeEntry', () => {
+    it('gives legacy entries without a status the active status', () => {
+        const entry = normalizeEntry({ id: NOW.getTime(), title: 'Old', content: 'From before statuses', entryDate: '2025-03-14' });
+        expect(entry.status).toBe('active');
+    });
+
+    it('keeps the status of entries that have one', () => {
+        const entry = normalizeEntry({ id: NOW.getTime(), title: 'Gone', content: '...', entryDate: '2025-03-14', status: 'trashed' });
+        expect(entry.status).toBe('trashed');
+    });
+
+    it('derives the timestamps from the ID and the entry date from the legacy display date', () => {
+        const entry = normalizeEntry({ id: NOW.getTime(), title: 'Old', content: '...', date: 'March 14, 2025' });
+        expect(entry.createdAt).toBe(NOW.toISOString());
+        expect(entry.updatedAt).toBe(NOW.toISOString());
+        expect(entry.entryDate).toBe('2025-03-14');
+        expect(entry).not.toHaveProperty('date');
+    });
+
+    it('normalizes tags and drops ones that are not text', () => {
+        const entry = normalizeEntry({ id: NOW.getTime(), title: 'Old', content: '...', entryDate: '2025-03-14', tags: ['Work', 'work', 3, ' '] });
+        expect(entry.tags).toEqual(['work']);
+    });
+});
+
+describe('parseEmotions', () => {
+    it('lowercases, trims and de-duplicates', () => {
+        expect(parseEmotions(' Calm, grateful,,calm ')).toEqual(['calm', 'grateful']);
+    });
+});
+
+describe('createEntry', () => {
+    it('uses the date as a placeholder title until one is generated', () => {
+        const entry = createEntry(input(), NOW);
+        expect(entry).toMatchObject({ id: NOW.getTime(), status: 'active', titlePending: true, createdAt: NOW.toISOString() });
+        expect(entry.title).toContain('2025');
+    });
+
+    it("keeps the user's own title", () => {
+        const entry = createEntry(input({ title: 'River walk', details: { mood: 4, tags: ['outdoors'] } }), NOW);
+        expect(entry).toMatchObject({ title: 'River walk', mood: 4, tags: ['outdoors'] });
+        expect(entry.titlePending).toBeUndefined();
+    });
+});
+
+describe('editEntry', () => {
+    const coached: DiaryEntry = {
+        ...createEntry(input({ title: 'River walk' }), NOW),
+        coachSummary: 'Walking clearly helps you unwind.',
+        coachContextIds: [1],
+        coachThread: [{ role: 'user', text: 'Thanks!', timestamp: NOW.getTime() }],
+    };
+
+    it('keeps the coaching when only the details change', () => {
+        const edited = editEntry(coached, input({ title: 'River walk', details: { mood: 5 } }), LATER);
+        expect(edited).toMatchObject({ mood: 5, coachSummary: coached.coachSummary, updatedAt: LATER.toISOString() });
+        expect(edited.titlePending).toBeUndefined();
+    });
+
+    it('clears the coaching and regenerates the title when the content changes', () => {
+        const edited = editEntry(coached, input({ title: 'River walk', content: 'Actually, it rained.' }), LATER);
+        expect(edited).toMatchObject({ content: 'Actually, it rained.', title: 'River walk', titlePending: true });
+        expect(edited.coachSummary).toBeUndefined();
+        expect(edited.coachContextIds).toBeUndefined();
+        expect(edited.coachThread).toBeUndefined();
+    });
+
+    it("doesn't regenerate a title the user has just written", () => {
+        const edited = editEntry(coached, input({ title: 'Rainy walk', content: 'Actually, it rained.' }), LATER);
+        expect(edited.title).toBe('Rainy walk');
+        expect(edited.titlePending).toBeUndefined();
+    });
+
+    it('keeps waiting for a generated title if the user left the placeholder alone', () => {
+        const pending = createEntry(input(), NOW);
+        const edited = editEntry(pending, input({ title: pending.title, details: { mood: 3 } }), LATER);
+        expect(edited.titlePending).toBe(true);
+    });
+});
+
+describe('EntryStore', () => {
+    it('creates entries, indexes them and persists them', () => {
+        const { store, persist } = createStore();
+        const entry = store.create(input(), NOW);
+        expect(store.entries).toEqual([entry]);
+        expect(store.searchIndex.search('river').map(result => result.id)).toEqual([entry.id]);
+        expect(persist).toHaveBeenCalledWith([entry]);
+    });
+
+    it('edits entries without changing the list it handed out before', () => {
+        const { store } = createStore();
+        const entry = store.create(input(), NOW);
+        const before = store.entries;
+        const change = store.edit(entry.id, input({ content: 'Rain all day.' }), LATER);
+        expect(change?.previous).toBe(entry);
+        expect(store.find(entry.id)?.content).toBe('Rain all day.');
+        expect(before[0].content).toBe(entry.content);
+        expect(store.searchIndex.search('river')).toEqual([]);
+        expect(store.searchIndex.search('rain').map(result => result.id)).toEqual([entry.id]);
+    });
+
+    it('returns null when editing an entry that no longer exists', () => {
+        const { store, persist } = createStore();
+        expect(store.edit(1, input())).toBeNull();
+        expect(persist).not.toHaveBeenCalled();
+    });
+
+    it('only applies a generated title while the entry is waiting for one', () => {
+        const { store } = createStore();
+        const entry = store.create(input(), NOW);
+        expect(store.applyGeneratedTitle(entry.id, 'By the River', LATER)?.entry).toMatchObject({ title: 'By the River', titlePending: undefined });
+        expect(store.applyGeneratedTitle(entry.id, 'Something Else', LATER)).toBeNull();
+        expect(store.find(entry.id)?.title).toBe('By the River');
+    });
+
+    it('moves entries to the trash and back', () => {
+        const { store } = createStore();
+        const entry = store.create(input(), NOW);
+        expect(store.trash([entry.id], LATER)).toHaveLength(1);
+        expect(store.find(entry.id)).toMatchObject({ status: 'trashed', trashedAt: LATER.toISOString() });
+        expect(store.trash([entry.id], LATER)).toEqual([]); // Already trashed
+
+        expect(store.restore([entry.id])).toHaveLength(1);
+        expect(store.find(entry.id)?.status).toBe('active');
+        expect(store.find(entry.id)?.trashedAt).toBeUndefined();
+        expect(store.restore([entry.id])).toEqual([]); // Not in the trash
+    });
+
+    it('deletes entries permanently from memory, the index and storage', () => {
+        const { store, remove } = createStore();
+        const kept = store.create(input({ content: 'Kept' }), NOW);
+        const deleted = store.create(input({ content: 'River notes' }), LATER);
+        expect(store.deletePermanently([deleted.id])).toEqual([deleted]);
+        expect(store.entries).toEqual([kept]);
+        expect(store.searchIndex.search('river')).toEqual([]);
+        expect(remove).toHaveBeenCalledWith([deleted.id]);
+    });
+
+    it("doesn't touch storage when there is nothing to delete", () => {
+        const { store, remove } = createStore();
+        expect(store.deletePermanently([1])).toEqual([]);
+        expect(remove).not.toHaveBeenCalled();
+    });
+
+    it('loads entries without persisting them', () => {
+        const { store, persist } = createStore();
+        const entry = createEntry(input(), NOW);
+        store.load([entry]);
+        expect(store.entries).toEqual([entry]);
+        expect(store.searchIndex.search('walk').map(result => result.id)).toEqual([entry.id]);
+        expect(persist).not.toHaveBeenCalled();
+    });
+});
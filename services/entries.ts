@@ -0,0 +1,297 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry } from "../types";
+import { formatEntryDate, legacyDateToEntryDate } from "../utils/dates";
+import { SearchIndex } from "./search";
+import { normalizeTag } from "../views/filters";
+
+/**
+ * The fields of an entry the editor sets besides its title, date and content.
+ */
+export type EntryDetails = Pick<DiaryEntry, 'mood' | 'moodSource' | 'emotions' | 'tags' | 'folder' | 'habitsDone' | 'template' | 'prompt' | 'audioClips'>;
+
+/**
+ * What the user saved from the entry editor.
+ */
+export interface EntryInput {
+    title: string; // As typed; empty to have one generated
+    content: string;
+    entryDate: string; // YYYY-MM-DD
+    details: EntryDetails;
+}
+
+/**
+ * A saved change to an entry, for its revision history.
+ */
+export interface EntryChange {
+    previous: DiaryEntry;
+    entry: DiaryEntry;
+}
+
+export interface EntryStoreOptions {
+    persist: (entries: DiaryEntry[]) => void; // Called with entries that were added or changed
+    remove: (ids: number[]) => void; // Called with entries that were permanently deleted
+}
+
+// --- Entry Model ---
+
+/**
+ * Brings a stored entry up to the current shape. Record-level changes happen here rather than in
+ * storage MIGRATIONS because encrypted records can only be read once the diary is unlocked.
+ * @param {Record<string, unknown>} entry - The stored entry.
+ * @returns {DiaryEntry} The normalized entry.
+ */
+export function normalizeEntry(entry: Record<string, unknown>): DiaryEntry {
+    const { date, ...rest } = entry;
+    const id = Number(entry.id);
+    const createdAt = typeof entry.createdAt === 'string' && entry.createdAt ? entry.createdAt : new Date(id).toISOString(); // IDs were creation times
+    // Tags from backups and older versions may not have been through normalizeTag
+    const storedTags: unknown[] = Array.isArray(entry.tags) ? entry.tags : [];
+    const tags = [...new Set(storedTags.filter((tag): tag is string => typeof tag === 'string').map(normalizeTag).filter(Boolean))];
+    return {
+        ...rest,
+        id,
+        title: String(entry.title ?? ''),
+        content: String(entry.content ?? ''),
+        tags: tags.length > 0 ? tags : undefined,
+        status: entry.status === 'trashed' ? 'trashed' : 'active', // Ensure all entries have a status
+        entryDate: typeof entry.entryDate === 'string' && entry.entryDate ? entry.entryDate : legacyDateToEntryDate(date, id),
+        createdAt,
+        updatedAt: typeof entry.updatedAt === 'string' && entry.updatedAt ? entry.updatedAt : createdAt,
+    };
+}
+
+/**
+ * Splits a comma-separated list of emotions into lowercase, de-duplicated tags.
+ * @param {string} value - The raw input.
+ * @returns {string[]} The emotions.
+ */
+export function parseEmotions(value: string): string[] {
+    const emotions = value.split(',').map(emotion => emotion.trim().toLowerCase()).filter(Boolean);
+    return [...new Set(emotions)];
+}
+
+/**
+ * Builds a new entry from the editor. Without a title of the user's own, the date stands in until
+ * a generated title replaces it.
+ * @param {EntryInput} input - What the user saved.
+ * @param {Date} [now] - The time of the save, which also becomes the entry's ID.
+ * @returns {DiaryEntry} The entry.
+ */
+export function createEntry(input: EntryInput, now: Date = new Date()): DiaryEntry {
+    return {
+        id: now.getTime(),
+        entryDate: input.entryDate,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        title: input.title || formatEntryDate(input.entryDate),
+        content: input.content,
+        status: 'active',
+        ...input.details,
+        ...(input.title ? {} : { titlePending: true }),
+    };
+}
+
+/**
+ * Applies an edit from the editor. Changing the content clears the coaching, which no longer fits,
+ * and regenerates the title unless the user wrote their own; the old title and coaching stay
+ * recoverable from the entry's history.
+ * @param {DiaryEntry} existing - The entry before the edit.
+ * @param {EntryInput} input - What the user saved.
+ * @param {Date} [now] - The time of the save.
+ * @returns {DiaryEntry} The edited entry.
+ */
+export function editEntry(existing: DiaryEntry, input: EntryInput, now: Date = new Date()): DiaryEntry {
+    const updatedAt = now.toISOString();
+    const hasOwnTitle = !!input.title && input.title !== existing.title;
+
+    if (existing.content === input.content) {
+        return {
+            ...existing,
+            ...input.details,
+            title: input.title,
+            titlePending: existing.titlePending && !hasOwnTitle ? true : undefined,
+            entryDate: input.entryDate,
+            updatedAt,
+        };
+    }
+    return {
+        ...existing,
+        ...input.details,
+        content: input.content,
+        title: hasOwnTitle ? input.title : existing.title || formatEntryDate(input.entryDate),
+        titlePending: hasOwnTitle ? undefined : true,
+        entryDate: input.entryDate,
+        updatedAt,
+        coachSummary: undefined,
+        coachContextIds: undefined,
+        coachThread: undefined,
+        coachStyle: undefined,
+    };
+}
+
+/**
+ * Gives an entry the title generated for it.
+ * @param {DiaryEntry} entry - The entry.
+ * @param {string} title - The generated title.
+ * @param {Date} [now] - The time of the change.
+ * @returns {DiaryEntry | null} The retitled entry, or null if it no longer waits for a title.
+ */
+export function applyGeneratedTitle(entry: DiaryEntry, title: string, now: Date = new Date()): DiaryEntry | null {
+    if (!entry.titlePending) return null;
+    return { ...entry, title, titlePending: undefined, updatedAt: now.toISOString() };
+}
+
+/**
+ * Moves an entry to the trash.
+ * @param {DiaryEntry} entry - The entry.
+ * @param {Date} [now] - The time it was trashed, which starts its retention period.
+ * @returns {DiaryEntry} The trashed entry.
+ */
+export function trashEntry(entry: DiaryEntry, now: Date = new Date()): DiaryEntry {
+    return { ...entry, status: 'trashed', trashedAt: now.toISOString() };
+}
+
+/**
+ * Takes an entry out of the trash.
+ * @param {DiaryEntry} entry - The trashed entry.
+ * @returns {DiaryEntry} The active entry.
+ */
+export function restoreEntry(entry: DiaryEntry): DiaryEntry {
+    return { ...entry, status: 'active', trashedAt: undefined };
+}
+
+// --- Entry Store ---
+
+/**
+ * Holds the diary's entries in memory and keeps the search index and storage in step with them.
+ * The list is replaced rather than changed in place, so a list read earlier stays as it was.
+ */
+export class EntryStore {
+    private list: DiaryEntry[] = [];
+    readonly searchIndex = new SearchIndex();
+
+    constructor(private options: EntryStoreOptions) {}
+
+    /**
+     * Every entry, including trashed ones, in no particular order.
+     */
+    get entries(): DiaryEntry[] {
+        return this.list;
+    }
+
+    /**
+     * Looks up an entry.
+     * @param {number | null} id - The entry's ID.
+     * @returns {DiaryEntry | undefined} The entry, if it exists.
+     */
+    find(id: number | null): DiaryEntry | undefined {
+        return this.list.find(entry => entry.id === id);
+    }
+
+    /**
+     * Replaces every entry without writing to storage, e.g. after loading or importing the diary.
+     * @param {DiaryEntry[]} entries - The entries.
+     */
+    load(entries: DiaryEntry[]) {
+        this.list = [...entries];
+        this.searchIndex.rebuild(this.list);
+    }
+
+    /**
+     * Adds or replaces entries, and persists them.
+     * @param {...DiaryEntry} changedEntries - The entries that were created or modified.
+     */
+    save(...changedEntries: DiaryEntry[]) {
+        if (changedEntries.length === 0) return;
+        const byId = new Map(changedEntries.map(entry => [entry.id, entry]));
+        this.list = [
+            ...this.list.map(entry => byId.get(entry.id) || entry),
+            ...changedEntries.filter(entry => !this.find(entry.id)),
+        ];
+        changedEntries.forEach(entry => this.searchIndex.update(entry));
+        this.options.persist(changedEntries);
+    }
+
+    /**
+     * Creates an entry from the editor.
+     * @param {EntryInput} input - What the user saved.
+     * @param {Date} [now] - The time of the save.
+     * @returns {DiaryEntry} The new entry; titlePending is set if a title should be generated.
+     */
+    create(input: EntryInput, now: Date = new Date()): DiaryEntry {
+        const entry = createEntry(input, now);
+        this.save(entry);
+        return entry;
+    }
+
+    /**
+     * Saves an edit from the editor.
+     * @param {number} id - The entry's ID.
+     * @param {EntryInput} input - What the user saved.
+     * @param {Date} [now] - The time of the save.
+     * @returns {EntryChange | null} The entry before and after, or null if it doesn't exist.
+     */
+    edit(id: number, input: EntryInput, now: Date = new Date()): EntryChange | null {
+        const previous = this.find(id);
+        if (!previous) return null;
+        const entry = editEntry(previous, input, now);
+        this.save(entry);
+        return { previous, entry };
+    }
+
+    /**
+     * Replaces an entry's placeholder title with a generated one. Does nothing if the user has
+     * given the entry a title of their own in the meantime.
+     * @param {number} id - The entry's ID.
+     * @param {string} title - The generated title.
+     * @param {Date} [now] - The time of the change.
+     * @returns {EntryChange | null} The entry before and after, or null if nothing changed.
+     */
+    applyGeneratedTitle(id: number, title: string, now: Date = new Date()): EntryChange | null {
+        const previous = this.find(id);
+        const entry = previous && applyGeneratedTitle(previous, title, now);
+        if (!previous || !entry) return null;
+        this.save(entry);
+        return { previous, entry };
+    }
+
+    /**
+     * Moves active entries to the trash.
+     * @param {number[]} ids - The entries' IDs.
+     * @param {Date} [now] - The time they were trashed.
+     * @returns {DiaryEntry[]} The entries that were trashed.
+     */
+    trash(ids: number[], now: Date = new Date()): DiaryEntry[] {
+        const trashed = this.list.filter(entry => ids.includes(entry.id) && entry.status === 'active').map(entry => trashEntry(entry, now));
+        this.save(...trashed);
+        return trashed;
+    }
+
+    /**
+     * Moves entries out of the trash.
+     * @param {number[]} ids - The entries' IDs.
+     * @returns {DiaryEntry[]} The entries that were restored.
+     */
+    restore(ids: number[]): DiaryEntry[] {
+        const restored = this.list.filter(entry => ids.includes(entry.id) && entry.status === 'trashed').map(restoreEntry);
+        this.save(...restored);
+        return restored;
+    }
+
+    /**
+     * Deletes entries for good, from memory, the search index and storage.
+     * @param {number[]} ids - The entries' IDs.
+     * @returns {DiaryEntry[]} The entries that were deleted.
+     */
+    deletePermanently(ids: number[]): DiaryEntry[] {
+        const deleted = this.list.filter(entry => ids.includes(entry.id));
+        if (deleted.length === 0) return [];
+        this.list = this.list.filter(entry => !ids.includes(entry.id));
+        deleted.forEach(entry => this.searchIndex.remove(entry.id));
+        this.options.remove(deleted.map(entry => entry.id));
+        return deleted;
+    }
+}
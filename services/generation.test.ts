@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiJob, DiaryEntry } from '../types';
+import { createAiProvider } from './ai';
+import { EntryStore, createEntry } from './entries';
+import { buildCoachContext, extractCommitments, generateTitle, getAiCoachSummary, regenerateTitle, streamCoachReply, suggestMood, suggestTags } from './generation';
+import { JobQueue } from './jobs';
+
+const { generateContent, generateContentStream } = vi.hoisted(() => ({
+    generateContent: vi.fn(),
+    generateContentStream: vi.fn(),
+}));
+
+vi.mock('@google/genai', async importOriginal => ({
+    ...await importOriginal<typeof import('@google/genai')>(),
+    GoogleGenAI: vi.fn(() => ({ models: { generateContent, generateContentStream } })),
+}));
+
+const ai = createAiProvider({ provider: 'gemini', model: 'gemini-test', apiKey: 'test-key', baseUrl: '' });
+
+function reply(text: string) {
+    generateContent.mockResolvedValueOnce({ text });
+}
+
+async function* stream(...chunks: string[]) {
+    for (const text of chunks) yield { text };
+}
+
+function promptOf(call: number = 0): string {
+    return generateContent.mock.calls[call][0].contents.at(-1).parts[0].text;
+}
+
+function entryOn(entryDate: string, content: string, extra: Partial<DiaryEntry> = {}): DiaryEntry {
+    const createdAt = new Date(`${entryDate}T12:00:00.000Z`);
+    return { ...createEntry({ title: `Entry of ${entryDate}`, content, entryDate, details: {} }, createdAt), ...extra };
+}
+
+beforeEach(() => {
+    generateContent.mockReset();
+    generateContentStream.mockReset();
+});
+
+describe('generateTitle', () => {
+    it('fills the title template and trims the reply', async () => {
+        reply('  A Quiet Morning \n');
+        await expect(generateTitle(ai, 'Slept in and read.', 'March 14, 2025', 'Title for {{date}}: {{content}}')).resolves.toBe('A Quiet Morning');
+        expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-test' }));
+        expect(promptOf()).toBe('Title for March 14, 2025: Slept in and read.');
+    });
+
+    it('fails on an empty reply, so the job retries', async () => {
+        reply('   ');
+        await expect(generateTitle(ai, 'Slept in.', 'March 14, 2025')).rejects.toThrow('empty title');
+    });
+
+    it('fails without an AI provider', async () => {
+        await expect(generateTitle(null, 'Slept in.', 'March 14, 2025')).rejects.toThrow('unavailable');
+    });
+});
+
+describe('title regeneration', () => {
+    /**
+     * Wires a store to a job queue the way the app does.
+     */
+    function createApp() {
+        const store = new EntryStore({ persist: vi.fn(), remove: vi.fn() });
+        let settle: () => void;
+        let settled = new Promise<void>(resolve => { settle = resolve; });
+        const queue = new JobQueue({
+            handlers: {
+                title: async (job: AiJob) => { await regenerateTitle(ai, store, job.entryId); },
+                coach: async () => {},
+            },
+            persist: vi.fn(),
+            remove: () => {
+                settle();
+                settled = new Promise<void>(resolve => { settle = resolve; });
+            },
+            onChange: vi.fn(),
+            isOnline: () => true,
+        });
+        return { store, queue, whenDone: () => settled };
+    }
+
+    it('replaces the placeholder title of a new entry', async () => {
+        const { store, queue, whenDone } = createApp();
+        reply('Riverside Calm');
+        const entry = store.create({ title: '', content: 'Walked by the river.', entryDate: '2025-03-14', details: {} });
+        queue.enqueue('title', entry.id);
+        await whenDone();
+        expect(store.find(entry.id)).toMatchObject({ title: 'Riverside Calm', titlePending: undefined });
+    });
+
+    it('regenerates the title when an edit changes the content', async () => {
+        const { store, queue, whenDone } = createApp();
+        const entry = store.create({ title: 'Walk', content: 'Walked by the river.', entryDate: '2025-03-14', details: {} });
+        const change = store.edit(entry.id, { title: 'Walk', content: 'It poured with rain.', entryDate: '2025-03-14', details: {} });
+        expect(change?.entry.titlePending).toBe(true);
+
+        reply('Caught in the Rain');
+        queue.enqueue('title', entry.id);
+        await whenDone();
+        expect(promptOf()).toContain('It poured with rain.');
+        expect(store.find(entry.id)?.title).toBe('Caught in the Rain');
+    });
+
+    it("keeps a title the user typed while the job was waiting", async () => {
+        const { store, queue, whenDone } = createApp();
+        const entry = store.create({ title: '', content: 'Walked by the river.', entryDate: '2025-03-14', details: {} });
+        store.edit(entry.id, { title: 'My Own Title', content: 'Walked by the river.', entryDate: '2025-03-14', details: {} });
+        queue.enqueue('title', entry.id);
+        await whenDone();
+        expect(generateContent).not.toHaveBeenCalled();
+        expect(store.find(entry.id)?.title).toBe('My Own Title');
+    });
+});
+
+describe('coaching', () => {
+    it('streams the summary chunk by chunk', async () => {
+        generateContentStream.mockResolvedValueOnce(stream('You seem ', 'rested.'));
+        const chunks: string[] = [];
+        await expect(getAiCoachSummary(ai, 'Coach this.', text => chunks.push(text))).resolves.toBe('You seem rested.');
+        expect(chunks).toEqual(['You seem ', 'You seem rested.']);
+    });
+
+    it('fails on an empty follow-up reply rather than adding a blank message', async () => {
+        generateContentStream.mockResolvedValueOnce(stream(' ', '\n'));
+        const entry = entryOn('2025-03-14', 'Today', { coachSummary: 'You seem rested.', coachThread: [{ role: 'user', text: 'Why?', timestamp: 1 }] });
+        await expect(streamCoachReply(ai, entry, 'Coach this.', () => {})).rejects.toThrow('empty reply');
+    });
+
+    it('gives the coach earlier active entries only, oldest first', () => {
+        const entry = entryOn('2025-03-14', 'Today');
+        const context = buildCoachContext(entry, [
+            entryOn('2025-03-12', 'Two days ago'),
+            entryOn('2025-03-10', 'Four days ago'),
+            entryOn('2025-03-11', 'Trashed', { status: 'trashed' }),
+            entryOn('2025-03-15', 'Tomorrow'),
+            entry,
+        ]);
+        expect(context.entries.map(e => e.content)).toEqual(['Four days ago', 'Two days ago']);
+        expect(context.text).toContain('Two days ago');
+    });
+
+    it('extracts commitments and drops malformed due dates', async () => {
+        reply(JSON.stringify({ commitments: [{ text: ' Call Sam ', dueDate: '2025-03-20' }, { text: 'Stretch daily', dueDate: 'soon' }, { text: '' }] }));
+        await expect(extractCommitments(ai, 'Call Sam by Thursday.', 'Missed Sam.')).resolves.toEqual([
+            { text: 'Call Sam', dueDate: '2025-03-20' },
+            { text: 'Stretch daily', dueDate: undefined },
+        ]);
+        expect(generateContent.mock.calls[0][0].config.responseMimeType).toBe('application/json');
+    });
+});
+
+describe('suggestions', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('suggests a mood with normalized emotions', async () => {
+        reply(JSON.stringify({ mood: 4.2, emotions: ['Calm', 'calm', 'Hopeful', 3] }));
+        await expect(suggestMood(ai, 'A good day.')).resolves.toEqual({ mood: 4, emotions: ['calm', 'hopeful'] });
+    });
+
+    it('ignores a mood out of range or a reply that is not JSON', async () => {
+        reply(JSON.stringify({ mood: 9, emotions: [] }));
+        await expect(suggestMood(ai, 'A good day.')).resolves.toBeNull();
+        reply('not json');
+        await expect(suggestMood(ai, 'A good day.')).resolves.toBeNull();
+    });
+
+    it('suggests up to five normalized tags and mentions the existing ones', async () => {
+        reply(JSON.stringify({ tags: ['Work', 'work', 'Deep Focus', 'a', 'b', 'c', 'd'] }));
+        const tags = await suggestTags(ai, 'Long day at the office.', ['work']);
+        expect(tags).toHaveLength(5);
+        expect(tags.slice(0, 2)).toEqual(['work', 'deep-focus']);
+        expect(promptOf()).toContain('Reuse these existing tags where they fit: work.');
+    });
+
+    it('returns nothing without an AI provider', async () => {
+        await expect(suggestMood(null, 'A good day.')).resolves.toBeNull();
+        await expect(suggestTags(null, 'A good day.', [])).resolves.toEqual([]);
+        expect(generateContent).not.toHaveBeenCalled();
+    });
+});
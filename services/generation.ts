@@ -0,0 +1,353 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type } from "@google/genai";
+import { DiaryEntry, Goal, Habit } from "../types";
+import { compareEntriesChronologically, formatEntryDate, toDateInputValue } from "../utils/dates";
+import { isRecord } from "../utils/guards";
+import { normalizeTag } from "../views/filters";
+import { formatHabitsForEntry } from "../views/habits";
+import { COMMON_EMOTIONS, MOOD_LEVELS } from "../views/insights";
+import { AiMessage, AiProvider } from "./ai";
+import { EntryChange, EntryStore, parseEmotions } from "./entries";
+import { describeEntryFormat } from "./journaling";
+import { CoachingSettings, DEFAULT_COACH_TEMPLATE, DEFAULT_TITLE_TEMPLATE, fillTemplate, getPersona, getResponseFormat } from "./prompts";
+
+// --- Coaching Context Limits ---
+const COACH_CONTEXT_TOKEN_BUDGET = 6000;
+const COACH_CONTEXT_MAX_ENTRIES = 12;
+const COACH_CONTEXT_MIN_TOKENS = 150; // Don't bother including a fragment smaller than this
+export const COACH_SUMMARY_EXCERPT_CHARS = 1200;
+
+const COACH_REPLY_INSTRUCTION = "You are continuing a coaching conversation about the user's diary entry. Reply conversationally and concisely to the user's latest message, answering their questions and building on what they share. Do not repeat the full structured response format; ask at most one follow-up question.";
+
+/**
+ * The slice of diary history handed to the AI coach alongside the current entry.
+ */
+export interface CoachContext {
+    entries: DiaryEntry[]; // Oldest first
+    text: string;
+}
+
+/**
+ * Roughly estimates how many model tokens a piece of text will use (~4 characters per token).
+ * @param {string} text - The text to measure.
+ * @returns {number} The estimated token count.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Generates a title for the diary entry.
+ * @param {AiProvider | null} ai - The AI provider.
+ * @param {string} content - The content of the diary entry.
+ * @param {string} dateString - The date of the entry, for the prompt.
+ * @param {string} [titleTemplate] - The user's title prompt, if they have customised it.
+ * @returns {Promise<string>} A promise that resolves to the generated title.
+ */
+export async function generateTitle(ai: AiProvider | null, content: string, dateString: string, titleTemplate?: string): Promise<string> {
+    if (!ai) {
+        throw new Error("AI is currently unavailable.");
+    }
+    const prompt = fillTemplate(titleTemplate || DEFAULT_TITLE_TEMPLATE, { date: dateString, content });
+    const title = (await ai.generate(prompt)).trim();
+    if (!title) {
+        throw new Error("The AI returned an empty title.");
+    }
+    return title;
+}
+
+/**
+ * Runs a title job: replaces an entry's placeholder title with a generated one. Does nothing if the
+ * user has given the entry a title of their own in the meantime, before or while the AI replies.
+ * @param {AiProvider | null} ai - The AI provider.
+ * @param {EntryStore} store - The store holding the entry.
+ * @param {number} entryId - The entry to title.
+ * @param {string} [titleTemplate] - The user's title prompt template.
+ * @returns {Promise<EntryChange | null>} The entry before and after, or null if the title was kept.
+ */
+export async function regenerateTitle(ai: AiProvider | null, store: EntryStore, entryId: number, titleTemplate?: string): Promise<EntryChange | null> {
+    const entry = store.find(entryId);
+    if (!entry || !entry.titlePending) return null;
+    const title = await generateTitle(ai, entry.content, formatEntryDate(entry.entryDate), titleTemplate);
+    return store.applyGeneratedTitle(entryId, title);
+}
+
+/**
+ * Formats a single earlier entry, with its previous coaching summary, for inclusion in the coach prompt.
+ * @param {DiaryEntry} entry - The earlier entry.
+ * @param {string} content - The entry content, possibly truncated to fit the budget.
+ * @returns {string} The formatted block.
+ */
+export function formatCoachContextEntry(entry: DiaryEntry, content: string): string {
+    let block = `### ${formatEntryDate(entry.entryDate)}: ${entry.title}\n${content}`;
+    if (entry.coachSummary) {
+        const excerpt = entry.coachSummary.length > COACH_SUMMARY_EXCERPT_CHARS
+            ? `${entry.coachSummary.slice(0, COACH_SUMMARY_EXCERPT_CHARS)}…`
+            : entry.coachSummary;
+        block += `\n\n**Your coaching response at the time:**\n${excerpt}`;
+    }
+    return block;
+}
+
+/**
+ * Builds the window of earlier active entries the coach should compare the given entry against.
+ * Walks back from the most recent earlier entry and stops once the token budget or entry cap is reached,
+ * truncating the last entry that only partly fits.
+ * @param {DiaryEntry} entry - The entry being coached.
+ * @param {DiaryEntry[]} allEntries - All diary entries.
+ * @param {number} tokenBudget - The maximum estimated tokens to spend on history.
+ * @returns {CoachContext} The selected entries (oldest first) and their prompt text.
+ */
+export function buildCoachContext(entry: DiaryEntry, allEntries: DiaryEntry[], tokenBudget: number = COACH_CONTEXT_TOKEN_BUDGET): CoachContext {
+    const candidates = allEntries
+        .filter(e => e.status === 'active' && e.id !== entry.id && compareEntriesChronologically(e, entry) < 0)
+        .sort((a, b) => compareEntriesChronologically(b, a));
+
+    const selected: DiaryEntry[] = [];
+    const blocks: string[] = [];
+    let remaining = tokenBudget;
+
+    for (const candidate of candidates) {
+        if (selected.length >= COACH_CONTEXT_MAX_ENTRIES || remaining < COACH_CONTEXT_MIN_TOKENS) break;
+
+        let block = formatCoachContextEntry(candidate, candidate.content);
+        let cost = estimateTokens(block);
+        if (cost > remaining) {
+            // Trim the entry content so the block fits in what is left of the budget.
+            const overheadChars = block.length - candidate.content.length;
+            const contentChars = remaining * 4 - overheadChars;
+            if (contentChars < COACH_CONTEXT_MIN_TOKENS * 4) break;
+            block = formatCoachContextEntry(candidate, `${candidate.content.slice(0, contentChars)}…`);
+            cost = estimateTokens(block);
+        }
+
+        selected.push(candidate);
+        blocks.push(block);
+        remaining -= cost;
+    }
+
+    return {
+        entries: selected.reverse(),
+        text: blocks.reverse().join('\n\n'),
+    };
+}
+
+/**
+ * Formats open goals as a bulleted list for inclusion in a prompt.
+ * @param {Goal[]} openGoals - The goals to list.
+ * @param {DiaryEntry[]} allEntries - All diary entries, to name the entry each goal came from.
+ * @returns {string} One line per goal, with its due date and origin entry when known.
+ */
+export function formatOpenGoals(openGoals: Goal[], allEntries: DiaryEntry[]): string {
+    return openGoals.map(goal => {
+        const origin = allEntries.find(e => e.id === goal.originEntryId);
+        const details = [
+            goal.dueDate ? `due ${goal.dueDate}` : '',
+            origin ? `from the entry "${origin.title}" (${formatEntryDate(origin.entryDate)})` : '',
+        ].filter(Boolean).join(', ');
+        return `- ${goal.text}${details ? ` (${details})` : ''}`;
+    }).join('\n');
+}
+
+/**
+ * Builds the full coaching prompt for a diary entry from the user's coaching settings.
+ * @param {DiaryEntry} entry - The diary entry.
+ * @param {CoachContext} context - Earlier entries to ground observations and accountability checks in.
+ * @param {Goal[]} openGoals - Commitments from earlier coaching that are still open, to check in on.
+ * @param {CoachingSettings} settings - The user's coaching settings.
+ * @param {{ entries: DiaryEntry[]; habits: Habit[] }} diary - All entries and habits, for the habit check-ins.
+ * @returns {string} The prompt.
+ */
+export function buildCoachPrompt(entry: DiaryEntry, context: CoachContext, openGoals: Goal[], settings: CoachingSettings, diary: { entries: DiaryEntry[]; habits: Habit[] }): string {
+    return fillTemplate(settings.coachTemplate || DEFAULT_COACH_TEMPLATE, {
+        persona: getPersona(settings.persona).prompt,
+        response_format: getResponseFormat(settings),
+        previous_entries: context.text || '(No previous entries.)',
+        open_goals: formatOpenGoals(openGoals, diary.entries) || '(No open commitments.)',
+        habits: formatHabitsForEntry(diary.habits, diary.entries, entry.entryDate) || '(No habits tracked.)',
+        entry_format: describeEntryFormat(entry),
+        date: formatEntryDate(entry.entryDate),
+        content: entry.content,
+    });
+}
+
+/**
+ * Generates a supportive summary for a diary entry, streaming it as it arrives.
+ * @param {AiProvider | null} ai - The AI provider.
+ * @param {string} coachPrompt - The prompt from buildCoachPrompt.
+ * @param {(text: string) => void} onChunk - Called with the full text received so far each time a chunk arrives.
+ * @returns {Promise<string>} A promise that resolves to the generated summary.
+ */
+export async function getAiCoachSummary(ai: AiProvider | null, coachPrompt: string, onChunk: (text: string) => void): Promise<string> {
+    if (!ai) {
+        throw new Error("AI is currently unavailable.");
+    }
+    let text = '';
+    for await (const chunk of ai.generateStream(coachPrompt)) {
+        text += chunk;
+        onChunk(text);
+    }
+    if (!text.trim()) {
+        throw new Error("The AI returned an empty response.");
+    }
+    return text.trim();
+}
+
+/**
+ * Streams the coach's reply to the latest message in an entry's follow-up conversation.
+ * The original coaching prompt and summary are replayed as the first turn so the coach keeps its context.
+ * @param {AiProvider | null} ai - The AI provider.
+ * @param {DiaryEntry} entry - The coached entry, with the user's new message already appended to its thread.
+ * @param {string} coachPrompt - The prompt from buildCoachPrompt.
+ * @param {(text: string) => void} onChunk - Called with the full text received so far each time a chunk arrives.
+ * @returns {Promise<string>} A promise that resolves to the complete reply.
+ */
+export async function streamCoachReply(ai: AiProvider | null, entry: DiaryEntry, coachPrompt: string, onChunk: (text: string) => void): Promise<string> {
+    if (!ai) {
+        throw new Error("AI is currently unavailable.");
+    }
+    const messages: AiMessage[] = [
+        { role: 'user', text: coachPrompt },
+        { role: 'model', text: entry.coachSummary || '' },
+        ...(entry.coachThread || []).map((message): AiMessage => ({
+            role: message.role === 'coach' ? 'model' : 'user',
+            text: message.text,
+        })),
+    ];
+
+    let text = '';
+    for await (const chunk of ai.generateStream(messages, { systemInstruction: COACH_REPLY_INSTRUCTION })) {
+        text += chunk;
+        onChunk(text);
+    }
+    if (!text.trim()) {
+        throw new Error("The AI returned an empty reply.");
+    }
+    return text.trim();
+}
+
+/**
+ * Suggests a mood score and emotion tags for a diary entry.
+ * @param {AiProvider | null} ai - The AI provider.
+ * @param {string} content - The content of the diary entry.
+ * @returns {Promise<{ mood: number; emotions: string[] } | null>} The suggestion, or null if none could be made.
+ */
+export async function suggestMood(ai: AiProvider | null, content: string): Promise<{ mood: number; emotions: string[] } | null> {
+    if (!ai) {
+        return null;
+    }
+    try {
+        const prompt = `Read the following diary entry and rate the writer's overall mood from 1 to 5 (${MOOD_LEVELS.map(level => `${level.score} = ${level.label.toLowerCase()}`).join(', ')}). Also list up to 4 emotions the writer expresses, as single lowercase words. Prefer these where they fit: ${COMMON_EMOTIONS.join(', ')}.\n\n---\n${content}`;
+        const response = await ai.generate(prompt, {
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    mood: { type: Type.INTEGER },
+                    emotions: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['mood', 'emotions'],
+            },
+        });
+        const parsed = JSON.parse(response);
+        const mood = Math.round(Number(parsed?.mood));
+        if (!(mood >= 1 && mood <= 5)) return null;
+        const emotions = Array.isArray(parsed.emotions) ? parseEmotions(parsed.emotions.filter((e: unknown) => typeof e === 'string').join(',')).slice(0, 4) : [];
+        return { mood, emotions };
+    } catch (error) {
+        console.error("Error suggesting mood:", error);
+        return null;
+    }
+}
+
+/**
+ * Suggests topic tags for a diary entry, preferring tags the diary already uses.
+ * @param {AiProvider | null} ai - The AI provider.
+ * @param {string} content - The content of the diary entry.
+ * @param {string[]} existingTags - Tags already used elsewhere in the diary.
+ * @returns {Promise<string[]>} Up to five normalized tags.
+ */
+export async function suggestTags(ai: AiProvider | null, content: string, existingTags: string[]): Promise<string[]> {
+    if (!ai) {
+        return [];
+    }
+    try {
+        const existing = existingTags.length > 0 ? ` Reuse these existing tags where they fit: ${existingTags.join(', ')}.` : '';
+        const prompt = `Suggest up to 5 short topic tags (one or two lowercase words each) for the following diary entry.${existing}\n\n---\n${content}`;
+        const response = await ai.generate(prompt, {
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['tags'],
+            },
+        });
+        const parsed = JSON.parse(response);
+        if (!Array.isArray(parsed?.tags)) return [];
+        const tags = parsed.tags.filter((tag: unknown) => typeof tag === 'string').map(normalizeTag).filter(Boolean);
+        return [...new Set<string>(tags)].slice(0, 5);
+    } catch (error) {
+        console.error("Error suggesting tags:", error);
+        return [];
+    }
+}
+
+/**
+ * Extracts concrete goals and commitments from a coaching response.
+ * @param {AiProvider | null} ai - The AI provider.
+ * @param {string} summary - The coaching response.
+ * @param {string} content - The diary entry that was coached.
+ * @returns {Promise<{ text: string; dueDate?: string }[]>} The extracted commitments, or an empty list on failure.
+ */
+export async function extractCommitments(ai: AiProvider | null, summary: string, content: string): Promise<{ text: string; dueDate?: string }[]> {
+    if (!ai) {
+        return [];
+    }
+    try {
+        const prompt = `Today is ${toDateInputValue(new Date())}. Below is a diary entry and an AI life coach's response to it.
+
+List the concrete goals or commitments the user should follow up on: things the user says they will do, and the coach's actionable recommendations. Write each one as a short imperative sentence in the second person (e.g. "Go for a 20-minute walk after lunch"). If a deadline is stated or clearly implied, give it as dueDate in YYYY-MM-DD format; otherwise omit it. Return an empty list if there are none. Do not include reflective questions.
+
+---
+Diary entry:
+${content}
+
+---
+Coach response:
+${summary}`;
+        const response = await ai.generate(prompt, {
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    commitments: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                text: { type: Type.STRING },
+                                dueDate: { type: Type.STRING },
+                            },
+                            required: ['text'],
+                        },
+                    },
+                },
+                required: ['commitments'],
+            },
+        });
+        const parsed: unknown = JSON.parse(response)?.commitments;
+        if (!Array.isArray(parsed)) return [];
+        const items: unknown[] = parsed;
+        return items
+            .filter((item): item is Record<string, unknown> & { text: string } => isRecord(item) && typeof item.text === 'string' && item.text.trim() !== '')
+            .map(item => ({
+                text: item.text.trim(),
+                dueDate: typeof item.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item.dueDate) ? item.dueDate : undefined,
+            }));
+    } catch (error) {
+        console.error("Error extracting commitments:", error);
+        return [];
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiJob } from '../types';
+import { JobHandler, JobQueue, MAX_JOB_ATTEMPTS, getRetryDelay } from './jobs';
+
+const NOW = new Date('2025-03-14T09:30:00.000Z');
+
+function createQueue(title: JobHandler = async () => {}) {
+    const state = { online: true };
+    const persist = vi.fn();
+    const remove = vi.fn();
+    const queue = new JobQueue({
+        handlers: { title, coach: async () => {} },
+        persist,
+        remove,
+        onChange: vi.fn(),
+        isOnline: () => state.online,
+    });
+    return { queue, persist, remove, state };
+}
+
+beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('getRetryDelay', () => {
+    it('doubles with each failure up to a cap', () => {
+        expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([2000, 4000, 8000, 16000]);
+        expect(getRetryDelay(20)).toBe(5 * 60 * 1000);
+    });
+});
+
+describe('JobQueue', () => {
+    it('runs queued jobs and removes them once done', async () => {
+        const title = vi.fn(async () => {});
+        const { queue, remove } = createQueue(title);
+        const job = queue.enqueue('title', 1);
+        await vi.runAllTimersAsync();
+        expect(title).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, entryId: 1 }));
+        expect(remove).toHaveBeenCalledWith([job.id]);
+        expect(queue.getJobsForEntry(1)).toEqual([]);
+    });
+
+    it('starts jobs that were running when the app closed again on load', async () => {
+        const title = vi.fn(async () => {});
+        const { queue, remove, state } = createQueue(title);
+        const stored: AiJob = { id: 7, type: 'title', entryId: 1, status: 'running', attempts: 2, nextAttemptAt: 0, createdAt: 0 };
+        state.online = false;
+        queue.load([stored]);
+        expect(queue.getJobsForEntry(1)).toMatchObject([{ id: 7, status: 'pending', attempts: 2 }]);
+
+        state.online = true;
+        queue.resume();
+        await vi.runAllTimersAsync();
+        expect(title).toHaveBeenCalledTimes(1);
+        expect(remove).toHaveBeenCalledWith([7]);
+    });
+
+    it('retries failures with exponential backoff until it runs out of attempts', async () => {
+        const title = vi.fn(async () => { throw new Error('Rate limited'); });
+        const { queue } = createQueue(title);
+        queue.enqueue('title', 1);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(title).toHaveBeenCalledTimes(1);
+
+        for (let attempts = 1; attempts < MAX_JOB_ATTEMPTS; attempts++) {
+            expect(queue.getJobsForEntry(1)[0]).toMatchObject({ status: 'pending', attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) });
+            await vi.advanceTimersByTimeAsync(getRetryDelay(attempts) - 1);
+            expect(title).toHaveBeenCalledTimes(attempts); // Not yet due
+            await vi.advanceTimersByTimeAsync(1);
+            expect(title).toHaveBeenCalledTimes(attempts + 1);
+        }
+
+        expect(queue.getJobsForEntry(1)[0]).toMatchObject({ status: 'failed', attempts: MAX_JOB_ATTEMPTS, lastError: 'Rate limited' });
+        await vi.runAllTimersAsync();
+        expect(title).toHaveBeenCalledTimes(MAX_JOB_ATTEMPTS);
+    });
+
+    it("doesn't count failures caused by going offline", async () => {
+        const { queue, state } = createQueue(async () => {
+            state.online = false;
+            throw new Error('Network error');
+        });
+        queue.enqueue('title', 1);
+        await vi.runAllTimersAsync();
+        expect(queue.getJobsForEntry(1)[0]).toMatchObject({ status: 'pending', attempts: 0 });
+    });
+
+    it("doesn't run anything while offline", async () => {
+        const title = vi.fn(async () => {});
+        const { queue, state } = createQueue(title);
+        state.online = false;
+        queue.enqueue('title', 1);
+        await vi.runAllTimersAsync();
+        expect(title).not.toHaveBeenCalled();
+    });
+
+    it('resets a waiting job instead of queueing a duplicate', async () => {
+        const { queue, state } = createQueue(async () => { throw new Error('Rate limited'); });
+        const first = queue.enqueue('title', 1);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(queue.getJobsForEntry(1)[0].attempts).toBe(1);
+
+        state.online = false;
+        const second = queue.enqueue('title', 1);
+        expect(second.id).toBe(first.id);
+        expect(queue.getJobsForEntry(1)).toMatchObject([{ id: first.id, status: 'pending', attempts: 0, lastError: undefined }]);
+
+        queue.enqueue('coach', 1);
+        queue.enqueue('title', 2);
+        expect(queue.getJobsForEntry(1).map(job => job.type)).toEqual(['title', 'coach']);
+    });
+
+    it('cancels the jobs of deleted entries', async () => {
+        const { queue, remove, state } = createQueue();
+        state.online = false;
+        const deleted = queue.enqueue('title', 1);
+        queue.enqueue('title', 2);
+
+        queue.cancelForEntries([1]);
+        expect(remove).toHaveBeenCalledWith([deleted.id]);
+        expect(queue.getJobsForEntry(1)).toEqual([]);
+        expect(queue.getJobsForEntry(2)).toHaveLength(1);
+
+        remove.mockClear();
+        queue.cancelForEntries([3]);
+        expect(remove).not.toHaveBeenCalled();
+    });
+
+    it('ignores the result of a job cancelled while it ran', async () => {
+        let finish: () => void = () => {};
+        const { queue, remove } = createQueue(() => new Promise<void>(resolve => { finish = resolve; }));
+        const job = queue.enqueue('title', 1);
+        await vi.advanceTimersByTimeAsync(0);
+        queue.cancelForEntries([1]);
+        expect(remove).toHaveBeenCalledTimes(1);
+
+        finish();
+        await vi.runAllTimersAsync();
+        expect(remove).toHaveBeenCalledTimes(1);
+        expect(remove).toHaveBeenCalledWith([job.id]);
+    });
+});
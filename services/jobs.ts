@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { AiJob } from "../types";
+
+export const MAX_JOB_ATTEMPTS = 5; // After this many failures a job waits for the user to retry it
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Does the work of one job. Throwing marks the attempt as failed.
+ */
+export type JobHandler = (job: AiJob) => Promise<void>;
+
+export interface JobQueueOptions {
+    handlers: Record<AiJob['type'], JobHandler>;
+    persist: (jobs: AiJob[]) => void; // Called with jobs that were added or changed
+    remove: (ids: number[]) => void; // Called with jobs that finished or were cancelled
+    onChange: () => void; // Called after any job changes status, to update the UI
+    isOnline: () => boolean;
+}
+
+/**
+ * How long to wait before the next attempt: exponential backoff, capped.
+ * @param {number} attempts - The number of failed attempts so far.
+ * @returns {number} The delay in milliseconds.
+ */
+export function getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * A persisted queue of background AI work. Jobs run one at a time, oldest first, so a burst of
+ * saves doesn't hit the provider's rate limits. Failed jobs retry with backoff; while offline
+ * nothing runs and failures don't count, and the queue picks up again on resume().
+ */
+export class JobQueue {
+    private jobs = new Map<number, AiJob>();
+    private timer: number | undefined;
+    private isRunning = false;
+    private lastId = 0;
+
+    constructor(private options: JobQueueOptions) {}
+
+    /**
+     * Replaces the queue with jobs loaded from storage and starts working through them.
+     * Jobs that were running when the app last closed are started again.
+     * @param {AiJob[]} jobs - The stored jobs.
+     */
+    load(jobs: AiJob[]) {
+        this.jobs = new Map(jobs.map(job => [job.id, job.status === 'running' ? { ...job, status: 'pending' } : job]));
+        this.lastId = Math.max(0, ...jobs.map(job => job.id));
+        this.schedule();
+    }
+
+    /**
+     * Forgets every job without touching storage, e.g. when the diary locks.
+     * A job that is running finishes, but its result is ignored.
+     */
+    clear() {
+        window.clearTimeout(this.timer);
+        this.jobs.clear();
+    }
+
+    /**
+     * Queues work for an entry. A waiting or failed job of the same type for the entry is reset
+     * instead of adding a duplicate, since it will pick up the entry's latest content anyway.
+     * @param {AiJob['type']} type - The kind of work.
+     * @param {number} entryId - The entry.
+     * @returns {AiJob} The queued job.
+     */
+    enqueue(type: AiJob['type'], entryId: number): AiJob {
+        const existing = [...this.jobs.values()].find(job => job.type === type && job.entryId === entryId && job.status !== 'running');
+        const now = Date.now();
+        const job: AiJob = existing
+            ? { ...existing, status: 'pending', attempts: 0, nextAttemptAt: now, lastError: undefined }
+            : { id: Math.max(now, this.lastId + 1), type, entryId, status: 'pending', attempts: 0, nextAttemptAt: now, createdAt: now };
+        this.lastId = Math.max(this.lastId, job.id);
+        this.jobs.set(job.id, job);
+        this.options.persist([job]);
+        this.options.onChange();
+        this.schedule();
+        return job;
+    }
+
+    /**
+     * Runs a waiting or failed job as soon as possible, with a fresh set of attempts.
+     * @param {number} jobId - The job.
+     */
+    retry(jobId: number) {
+        const job = this.jobs.get(jobId);
+        if (!job || job.status === 'running') return;
+        this.update({ ...job, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined });
+        this.schedule();
+    }
+
+    /**
+     * Drops the jobs for entries that no longer exist.
+     * @param {number[]} entryIds - The entries.
+     */
+    cancelForEntries(entryIds: number[]) {
+        const ids = [...this.jobs.values()].filter(job => entryIds.includes(job.entryId)).map(job => job.id);
+        if (ids.length === 0) return;
+        ids.forEach(id => this.jobs.delete(id));
+        this.options.remove(ids);
+        this.options.onChange();
+    }
+
+    /**
+     * Lists the unfinished jobs for an entry.
+     * @param {number} entryId - The entry.
+     * @returns {AiJob[]} The jobs, oldest first.
+     */
+    getJobsForEntry(entryId: number): AiJob[] {
+        return [...this.jobs.values()].filter(job => job.entryId === entryId).sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    /**
+     * Starts working again after coming back online.
+     */
+    resume() {
+        this.schedule();
+    }
+
+    private update(job: AiJob) {
+        this.jobs.set(job.id, job);
+        this.options.persist([job]);
+        this.options.onChange();
+    }
+
+    /**
+     * Runs the next due job, or sets a timer for when the next one becomes due.
+     */
+    private schedule() {
+        window.clearTimeout(this.timer);
+        this.timer = undefined;
+        if (this.isRunning || !this.options.isOnline()) return;
+
+        const waiting = [...this.jobs.values()].filter(job => job.status === 'pending');
+        if (waiting.length === 0) return;
+        const now = Date.now();
+        const due = waiting.filter(job => job.nextAttemptAt <= now).sort((a, b) => a.createdAt - b.createdAt)[0];
+        if (due) {
+            this.run(due);
+        } else {
+            const nextAt = Math.min(...waiting.map(job => job.nextAttemptAt));
+            this.timer = window.setTimeout(() => this.schedule(), nextAt - now);
+        }
+    }
+
+    private async run(job: AiJob) {
+        this.isRunning = true;
+        this.update({ ...job, status: 'running' });
+        try {
+            await this.options.handlers[job.type](job);
+            if (this.jobs.has(job.id)) {
+                this.jobs.delete(job.id);
+                this.options.remove([job.id]);
+            }
+        } catch (error) {
+            console.error(`Background ${job.type} job failed:`, error);
+            if (this.jobs.has(job.id)) {
+                // Failing because the connection dropped doesn't use up an attempt
+                const attempts = this.options.isOnline() ? job.attempts + 1 : job.attempts;
+                this.update({
+                    ...job,
+                    status: attempts >= MAX_JOB_ATTEMPTS ? 'failed' : 'pending',
+                    attempts,
+                    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+                    lastError: error instanceof Error ? error.message : String(error),
+                });
+            }
+        } finally {
+            this.isRunning = false;
+            this.options.onChange();
+            this.schedule();
+        }
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry } from "../types";
+import { fillTemplate } from "./prompts";
+
+/**
+ * A guided journaling format. Its sections prefill the editor as Markdown headings, and its
+ * coaching note tells the coach how to read an entry written with it.
+ */
+export interface JournalTemplate {
+    id: string;
+    label: string;
+    description: string;
+    sections: string[]; // Headings, in order
+    coachNote: string;
+}
+
+export const JOURNAL_TEMPLATES: JournalTemplate[] = [
+    {
+        id: 'morning-pages',
+        label: 'Morning pages',
+        description: 'Three pages of unfiltered writing, first thing in the morning.',
+        sections: ['Morning pages'],
+        coachNote: "Morning pages are unedited stream-of-consciousness writing, done first thing in the morning to clear the mind. Don't expect structure or critique the writing; notice what surfaced, especially worries, ideas and preoccupations that keep coming back.",
+    },
+    {
+        id: 'gratitude',
+        label: 'Gratitude',
+        description: "Three things you're grateful for and why they mattered.",
+        sections: ["Three things I'm grateful for", 'Why they mattered', "Something I'm looking forward to"],
+        coachNote: "This is a gratitude practice. Reinforce what the user appreciated and why, notice what kinds of things they tend to be grateful for, and don't turn the response towards problems the entry doesn't raise.",
+    },
+    {
+        id: 'evening-review',
+        label: 'Evening review',
+        description: 'Look back on the day: wins, setbacks, lessons and tomorrow.',
+        sections: ['What went well today', "What didn't go to plan", 'What I learned', 'Tomorrow I will'],
+        coachNote: 'This is an end-of-day review. Acknowledge the wins, look for patterns behind the setbacks, and help turn the "Tomorrow I will" section into concrete, realistic commitments.',
+    },
+    {
+        id: 'thought-record',
+        label: 'CBT thought record',
+        description: 'Examine a difficult thought and find a more balanced one.',
+        sections: ['Situation', 'Automatic thoughts', 'Emotions (and how strong, 0–100%)', 'Evidence for the thought', 'Evidence against the thought', 'Balanced thought', 'How I feel now'],
+        coachNote: 'This is a CBT thought record. Check whether the evidence was weighed fairly, name any cognitive distortions in the automatic thoughts, and help strengthen the balanced thought. Compare the emotion ratings before and after.',
+    },
+    {
+        id: 'goal-check-in',
+        label: 'Goal check-in',
+        description: 'Review progress on your open goals and plan the next steps.',
+        sections: ["Goals I'm working on", 'Progress since my last check-in', 'What got in the way', 'Next steps'],
+        coachNote: 'This is a goal check-in. Compare the progress described against the open commitments, celebrate what moved, dig into what got in the way, and make sure each next step is specific and has a time frame.',
+    },
+];
+
+/**
+ * Looks up a journaling template.
+ * @param {string | undefined} id - The template ID.
+ * @returns {JournalTemplate | undefined} The template, if the ID is known.
+ */
+export function getJournalTemplate(id: string | undefined): JournalTemplate | undefined {
+    return JOURNAL_TEMPLATES.find(template => template.id === id);
+}
+
+/**
+ * Builds the text a template prefills the editor with: one heading per section. A goal check-in
+ * starts with the user's open goals already listed.
+ * @param {JournalTemplate} template - The template.
+ * @param {string} openGoals - The open goals as a Markdown list, or an empty string.
+ * @returns {string} The Markdown.
+ */
+export function createTemplateContent(template: JournalTemplate, openGoals: string): string {
+    return template.sections.map((heading, index) => {
+        const body = template.id === 'goal-check-in' && index === 0 ? openGoals : '';
+        return `## ${heading}\n\n${body}`;
+    }).join('\n\n').trimEnd() + '\n\n';
+}
+
+/**
+ * Describes how an entry was written, for the coaching prompt: its template's sections and how to
+ * read them, and the writing prompt it answers.
+ * @param {DiaryEntry} entry - The entry.
+ * @returns {string} The description.
+ */
+export function describeEntryFormat(entry: DiaryEntry): string {
+    const template = getJournalTemplate(entry.template);
+    const lines = [
+        template
+            ? `The user wrote this entry with the "${template.label}" journaling template, under these headings: ${template.sections.join('; ')}. ${template.coachNote}`
+            : 'The user wrote this entry freely, without a template.',
+        entry.prompt ? `They were answering this writing prompt: "${entry.prompt}"` : '',
+    ];
+    return lines.filter(Boolean).join('\n');
+}
+
+/**
+ * The prompt for suggesting a personal journaling prompt for the day. Variables: {{date}},
+ * {{recent_entries}}, {{coach_themes}} and {{open_goals}}.
+ */
+const DAILY_PROMPT_TEMPLATE = `You suggest journaling prompts. Write one open-ended question or invitation for the user to write about in their diary today, {{date}}.
+
+Make it personal: build on something from their recent entries, or a theme your earlier coaching raised that they haven't come back to. Don't repeat a question they have already answered. Keep it to one or two sentences, and warm rather than clinical. Reply with the prompt only, without quotes or any preamble. If there is nothing to build on, suggest a good general reflection prompt.
+
+## Recent entries
+
+{{recent_entries}}
+
+## Themes from earlier coaching
+
+{{coach_themes}}
+
+## Open commitments
+
+{{open_goals}}`;
+
+/**
+ * Builds the prompt for a daily writing prompt.
+ * @param {{ date: string; recentEntries: string; coachThemes: string; openGoals: string }} context - The
+ *   date and the user's recent material, already formatted; empty strings where there is none.
+ * @returns {string} The prompt.
+ */
+export function buildDailyPromptRequest(context: { date: string; recentEntries: string; coachThemes: string; openGoals: string }): string {
+    return fillTemplate(DAILY_PROMPT_TEMPLATE, {
+        date: context.date,
+        recent_entries: context.recentEntries || '(No entries yet.)',
+        coach_themes: context.coachThemes || '(No coaching yet.)',
+        open_goals: context.openGoals || '(No open commitments.)',
+    });
+}
@@ -0,0 +1,339 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry } from "../types";
+import { escapeHtml } from "../utils/html";
+
+export type SearchField = 'title' | 'content' | 'coach' | 'tags';
+
+/**
+ * One part of a parsed search query: a word, a "quoted phrase", optionally limited to a field
+ * with `field:` and negated with a leading '-'.
+ */
+export interface SearchClause {
+    tokens: string[];
+    isPhrase: boolean;
+    exclude: boolean;
+    field?: SearchField;
+}
+
+export interface SearchResult {
+    id: number;
+    score: number;
+}
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'content', 'coach', 'tags'];
+
+// Matches in the title count for more than matches deep in a coaching reply
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, tags: 2, content: 1, coach: 0.5 };
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+    title: 'title',
+    content: 'content',
+    body: 'content',
+    coach: 'coach',
+    tag: 'tags',
+    tags: 'tags',
+};
+
+// Partial words match while typing, but score lower than whole words
+const PREFIX_MATCH_WEIGHT = 0.5;
+const PHRASE_MATCH_BOOST = 1.5;
+
+// BM25 parameters
+const TERM_SATURATION = 1.2;
+const LENGTH_NORMALIZATION = 0.75;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+interface IndexedDocument {
+    text: Record<SearchField, string>; // Normalized tokens joined by spaces, padded, for phrase matching
+    lengths: Record<SearchField, number>;
+}
+
+/**
+ * Splits text into lowercase word tokens.
+ * @param {string} text - The text.
+ * @returns {string[]} The tokens.
+ */
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().match(TOKEN_PATTERN) || [];
+}
+
+/**
+ * Parses a search query. Supports "quoted phrases", -excluded terms and field:term
+ * (title, content, coach, tag). Unknown field prefixes are searched as plain text.
+ * @param {string} query - The raw query.
+ * @returns {SearchClause[]} The clauses, empty if the query has nothing searchable.
+ */
+export function parseSearchQuery(query: string): SearchClause[] {
+    const clauses: SearchClause[] = [];
+    const pattern = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(query)) !== null) {
+        const [whole, minus, fieldName, phrase, word] = match;
+        const field = fieldName ? FIELD_ALIASES[fieldName.toLowerCase()] : undefined;
+        // "10:30" or "note:" aren't field filters, so search the text as typed
+        const text = fieldName && !field ? whole.replace(/^-/, '') : (phrase ?? word);
+        const tokens = tokenize(text);
+        if (tokens.length === 0) continue;
+        clauses.push({
+            tokens,
+            isPhrase: phrase !== undefined || tokens.length > 1,
+            exclude: !!minus,
+            field,
+        });
+    }
+    return clauses;
+}
+
+/**
+ * Collects the searchable text of an entry, by field.
+ * @param {DiaryEntry} entry - The entry.
+ * @returns {Record<SearchField, string>} The raw text of each field.
+ */
+function getEntryFields(entry: DiaryEntry): Record<SearchField, string> {
+    return {
+        title: entry.title,
+        content: entry.content,
+        coach: [entry.coachSummary || '', ...(entry.coachThread || []).map(message => message.text)].join('\n'),
+        tags: (entry.tags || []).join(' '),
+    };
+}
+
+/**
+ * An inverted index over diary entries, kept up to date as entries are saved and removed.
+ */
+export class SearchIndex {
+    // term -> entry id -> occurrences per field
+    private postings = new Map<string, Map<number, Partial<Record<SearchField, number>>>>();
+    private documents = new Map<number, IndexedDocument>();
+    private cachedQuery: string | null = null;
+    private cachedResults: SearchResult[] = [];
+
+    /**
+     * Replaces the whole index.
+     * @param {DiaryEntry[]} entries - Every entry, active or trashed.
+     */
+    rebuild(entries: DiaryEntry[]) {
+        this.postings.clear();
+        this.documents.clear();
+        entries.forEach(entry => this.add(entry));
+        this.cachedQuery = null;
+    }
+
+    /**
+     * Indexes a new or changed entry.
+     * @param {DiaryEntry} entry - The entry.
+     */
+    update(entry: DiaryEntry) {
+        this.remove(entry.id);
+        this.add(entry);
+    }
+
+    /**
+     * Removes an entry from the index.
+     * @param {number} id - The ID of the entry.
+     */
+    remove(id: number) {
+        if (!this.documents.has(id)) return;
+        this.documents.delete(id);
+        this.postings.forEach((docs, term) => {
+            if (docs.delete(id) && docs.size === 0) this.postings.delete(term);
+        });
+        this.cachedQuery = null;
+    }
+
+    private add(entry: DiaryEntry) {
+        const fields = getEntryFields(entry);
+        const document: IndexedDocument = {
+            text: { title: '', content: '', coach: '', tags: '' },
+            lengths: { title: 0, content: 0, coach: 0, tags: 0 },
+        };
+        SEARCH_FIELDS.forEach(field => {
+            const tokens = tokenize(fields[field]);
+            document.text[field] = ` ${tokens.join(' ')} `;
+            document.lengths[field] = tokens.length;
+            tokens.forEach(token => {
+                let docs = this.postings.get(token);
+                if (!docs) {
+                    docs = new Map();
+                    this.postings.set(token, docs);
+                }
+                const counts = docs.get(entry.id) || {};
+                counts[field] = (counts[field] || 0) + 1;
+                docs.set(entry.id, counts);
+            });
+        });
+        this.documents.set(entry.id, document);
+        this.cachedQuery = null;
+    }
+
+    /**
+     * Searches the index. Every non-excluded clause must match; results are ranked with BM25,
+     * weighted by the field each match is in.
+     * @param {string} query - The raw query.
+     * @returns {SearchResult[]} Matching entries, best first.
+     */
+    search(query: string): SearchResult[] {
+        if (query === this.cachedQuery) return this.cachedResults;
+
+        const clauses = parseSearchQuery(query);
+        const required = clauses.filter(clause => !clause.exclude);
+        const averageLengths = this.getAverageLengths();
+
+        let scores: Map<number, number> | null = null;
+        for (const clause of required) {
+            const clauseScores = this.scoreClause(clause, averageLengths);
+            if (scores === null) {
+                scores = clauseScores;
+            } else {
+                const combined = new Map<number, number>();
+                scores.forEach((score, id) => {
+                    const clauseScore = clauseScores.get(id);
+                    if (clauseScore !== undefined) combined.set(id, score + clauseScore);
+                });
+                scores = combined;
+            }
+        }
+        // A query of only exclusions filters the whole diary
+        if (scores === null) {
+            scores = new Map([...this.documents.keys()].map(id => [id, 0]));
+        }
+
+        clauses.filter(clause => clause.exclude).forEach(clause => {
+            this.findExactMatches(clause).forEach(id => scores!.delete(id));
+        });
+
+        this.cachedQuery = query;
+        this.cachedResults = [...scores.entries()]
+            .map(([id, score]) => ({ id, score }))
+            .sort((a, b) => b.score - a.score);
+        return this.cachedResults;
+    }
+
+    private getAverageLengths(): Record<SearchField, number> {
+        const totals: Record<SearchField, number> = { title: 0, content: 0, coach: 0, tags: 0 };
+        this.documents.forEach(document => SEARCH_FIELDS.forEach(field => totals[field] += document.lengths[field]));
+        const count = this.documents.size || 1;
+        SEARCH_FIELDS.forEach(field => totals[field] = totals[field] / count || 1);
+        return totals;
+    }
+
+    private scoreTerm(term: string, field: SearchField | undefined, averageLengths: Record<SearchField, number>, weight: number, scores: Map<number, number>) {
+        const docs = this.postings.get(term);
+        if (!docs) return;
+        const documentCount = this.documents.size;
+        const idf = Math.log(1 + (documentCount - docs.size + 0.5) / (docs.size + 0.5));
+        docs.forEach((counts, id) => {
+            const document = this.documents.get(id) as IndexedDocument;
+            let score = 0;
+            (field ? [field] : SEARCH_FIELDS).forEach(f => {
+                const frequency = counts[f];
+                if (!frequency) return;
+                const lengthRatio = document.lengths[f] / averageLengths[f];
+                const saturated = (frequency * (TERM_SATURATION + 1)) /
+                    (frequency + TERM_SATURATION * (1 - LENGTH_NORMALIZATION + LENGTH_NORMALIZATION * lengthRatio));
+                score += FIELD_WEIGHTS[f] * saturated * idf;
+            });
+            if (score > 0) scores.set(id, (scores.get(id) || 0) + score * weight);
+        });
+    }
+
+    private scoreClause(clause: SearchClause, averageLengths: Record<SearchField, number>): Map<number, number> {
+        const scores = new Map<number, number>();
+        if (clause.isPhrase) {
+            const matches = this.findExactMatches(clause);
+            clause.tokens.forEach(token => this.scoreTerm(token, clause.field, averageLengths, PHRASE_MATCH_BOOST, scores));
+            scores.forEach((_, id) => {
+                if (!matches.has(id)) scores.delete(id);
+            });
+            return scores;
+        }
+
+        const [token] = clause.tokens;
+        this.postings.forEach((_, term) => {
+            if (term === token) {
+                this.scoreTerm(term, clause.field, averageLengths, 1, scores);
+            } else if (term.startsWith(token)) {
+                this.scoreTerm(term, clause.field, averageLengths, PREFIX_MATCH_WEIGHT, scores);
+            }
+        });
+        return scores;
+    }
+
+    private findExactMatches(clause: SearchClause): Set<number> {
+        const needle = ` ${clause.tokens.join(' ')} `;
+        const matches = new Set<number>();
+        this.documents.forEach((document, id) => {
+            const fields = clause.field ? [clause.field] : SEARCH_FIELDS;
+            if (fields.some(field => document.text[field].includes(needle))) matches.add(id);
+        });
+        return matches;
+    }
+}
+
+/**
+ * Builds a regular expression matching the words and phrases a query searched for, for highlighting.
+ * @param {SearchClause[]} clauses - The parsed query.
+ * @param {SearchField} field - The field being highlighted; clauses limited to other fields are skipped.
+ * @returns {RegExp | null} The pattern, or null if nothing should be highlighted.
+ */
+function buildHighlightPattern(clauses: SearchClause[], field: SearchField): RegExp | null {
+    const alternatives = clauses
+        .filter(clause => !clause.exclude && (!clause.field || clause.field === field))
+        .map(clause => {
+            const words = clause.tokens.map(token => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+            // Phrases match their words in order with any separators; single words match as a prefix
+            return clause.isPhrase ? words.join('[^\\p{L}\\p{N}]+') : `${words[0]}[\\p{L}\\p{N}]*`;
+        });
+    if (alternatives.length === 0) return null;
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+}
+
+/**
+ * Escapes text and wraps the parts that match the query in <mark>.
+ * @param {string} text - The raw text.
+ * @param {SearchClause[]} clauses - The parsed query.
+ * @param {SearchField} field - The field the text comes from.
+ * @returns {string} Safe HTML.
+ */
+export function highlightMatches(text: string, clauses: SearchClause[], field: SearchField): string {
+    const pattern = buildHighlightPattern(clauses, field);
+    if (!pattern) return escapeHtml(text);
+
+    let html = '';
+    let lastIndex = 0;
+    for (const match of text.matchAll(pattern)) {
+        const index = match.index as number;
+        html += escapeHtml(text.slice(lastIndex, index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+        lastIndex = index + match[0].length;
+    }
+    return html + escapeHtml(text.slice(lastIndex));
+}
+
+/**
+ * Cuts a short excerpt around the first match in a field, with the matches highlighted.
+ * @param {string} text - The raw text.
+ * @param {SearchClause[]} clauses - The parsed query.
+ * @param {SearchField} field - The field the text comes from.
+ * @param {number} maxLength - The approximate excerpt length in characters.
+ * @returns {string | null} Safe HTML, or null if the field has no match.
+ */
+export function createSnippet(text: string, clauses: SearchClause[], field: SearchField, maxLength: number = 160): string | null {
+    const pattern = buildHighlightPattern(clauses, field);
+    const match = pattern ? pattern.exec(text) : null;
+    if (!match) return null;
+
+    let start = Math.max(0, match.index - Math.floor(maxLength / 3));
+    let end = Math.min(text.length, start + maxLength);
+    // Don't cut words in half, or the match itself
+    const firstSpace = text.indexOf(' ', start);
+    if (start > 0 && firstSpace !== -1 && firstSpace < match.index) start = firstSpace + 1;
+    const lastSpace = text.lastIndexOf(' ', end);
+    if (end < text.length && lastSpace > match.index + match[0].length) end = lastSpace;
+
+    const excerpt = text.slice(start, end).replace(/\s+/g, ' ');
+    return `${start > 0 ? '…' : ''}${highlightMatches(excerpt, clauses, field)}${end < text.length ? '…' : ''}`;
+}
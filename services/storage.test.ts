@@ -0,0 +1,238 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLock } from './crypto';
+import { EntryInput, EntryStore, createEntry } from './entries';
+import { changeEncryption, deleteEntries, getDraft, getEntryAudio, getEntryHistory, getLockConfig, loadDiary, putDraft, putEmbeddings, putEntries, putEntryAudio, putEntryHistory, putGoals, putHabits, putJobs, putReviews, setBlockedHandler, setEncryptionKey } from './storage';
+
+const NOW = new Date('2025-03-14T09:30:00.000Z');
+
+function input(overrides: Partial<EntryInput> = {}): EntryInput {
+    return { title: 'River walk', content: 'Walked by the river.', entryDate: '2025-03-14', details: {}, ...overrides };
+}
+
+/**
+ * A store that writes through to the database like the app's, keeping the writes so tests can wait for them.
+ */
+function createPersistentStore() {
+    const writes: Promise<void>[] = [];
+    const store = new EntryStore({
+        persist: entries => writes.push(putEntries(entries)),
+        remove: ids => writes.push(deleteEntries(ids)),
+    });
+    return { store, flush: () => Promise.all(writes) };
+}
+
+/**
+ * Reads a store's records as they are on disk, bypassing decryption.
+ */
+function readRaw(storeName: string): Promise<Record<string, unknown>[]> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open('ai-diary');
+        request.onsuccess = () => {
+            const db = request.result;
+            const getAll = db.transaction(storeName).objectStore(storeName).getAll();
+            getAll.onsuccess = () => { db.close(); resolve(getAll.result); };
+            getAll.onerror = () => reject(getAll.error);
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Deletes the database. The app's open connection closes itself when it is deleted.
+ */
+function deleteDatabase(): Promise<unknown> {
+    return new Promise(resolve => {
+        const request = indexedDB.deleteDatabase('ai-diary');
+        request.onsuccess = request.onerror = request.onblocked = resolve;
+    });
+}
+
+beforeEach(async () => {
+    localStorage.clear();
+    await deleteDatabase();
+    // Forget any lock a previous test set up
+    setEncryptionKey(null);
+    await getLockConfig();
+});
+
+describe('entry persistence', () => {
+    it('saves created and edited entries', async () => {
+        const { store, flush } = createPersistentStore();
+        const entry = store.create(input(), NOW);
+        store.edit(entry.id, input({ content: 'It rained on the way back.' }));
+        await flush();
+
+        const { entries } = await loadDiary();
+        expect(entries).toHaveLength(1);
+        expect(entries[0]).toMatchObject({ id: entry.id, content: 'It rained on the way back.', status: 'active' });
+    });
+
+    it('saves trashing and restoring', async () => {
+        const { store, flush } = createPersistentStore();
+        const entry = store.create(input(), NOW);
+        store.trash([entry.id]);
+        await flush();
+        expect((await loadDiary()).entries[0].status).toBe('trashed');
+
+        store.restore([entry.id]);
+        await flush();
+        const [restored] = (await loadDiary()).entries;
+        expect(restored.status).toBe('active');
+        expect(restored.trashedAt).toBeUndefined();
+    });
+
+    it('deletes an entry permanently along with its history', async () => {
+        const { store, flush } = createPersistentStore();
+        const kept = store.create(input({ content: 'Kept' }), NOW);
+        const deleted = store.create(input({ content: 'Deleted' }), new Date(NOW.getTime() + 1000));
+        await flush();
+        await putEntryHistory({ id: deleted.id, revisions: [{ id: 1, savedAt: NOW.toISOString(), title: deleted.title, content: deleted.content }] });
+
+        store.trash([deleted.id]);
+        await flush();
+        store.deletePermanently([deleted.id]);
+        await flush();
+        expect((await loadDiary()).entries.map(e => e.id)).toEqual([kept.id]);
+        expect(await getEntryHistory(deleted.id)).toEqual([]);
+    });
+
+    it('loads a saved diary into a fresh store', async () => {
+        const { store, flush } = createPersistentStore();
+        const entry = store.create(input(), NOW);
+        await flush();
+
+        const reloaded = createPersistentStore().store;
+        reloaded.load((await loadDiary()).entries);
+        expect(reloaded.find(entry.id)?.title).toBe('River walk');
+        expect(reloaded.searchIndex.search('river').map(result => result.id)).toEqual([entry.id]);
+    });
+});
+
+describe('passphrase lock', () => {
+    const RECORD_STORES = ['entries', 'goals', 'habits', 'embeddings', 'reviews', 'histories', 'drafts', 'jobs', 'audio'];
+
+    /**
+     * Writes one record to every store, so tests can check none is left behind.
+     */
+    async function fillEveryStore() {
+        const entry = createEntry(input(), NOW);
+        await putEntries([entry]);
+        await putGoals([{ id: 1, text: 'Walk every day', originEntryId: entry.id, status: 'open', createdAt: NOW.getTime() }]);
+        await putHabits([{ id: 1, name: 'Walk', frequency: 'daily', target: 1, createdAt: NOW.getTime() }]);
+        await putEmbeddings([{ id: entry.id, model: 'test', contentHash: 'abc', vector: [0.5, 0.5] }]);
+        await putReviews([{ id: 1, period: 'week', start: '2025-03-10', end: '2025-03-16', summary: 'A calm week.', entryIds: [entry.id], sourceHash: 'abc', createdAt: NOW.toISOString() }]);
+        await putEntryHistory({ id: entry.id, revisions: [{ id: 1, savedAt: NOW.toISOString(), title: entry.title, content: entry.content }] });
+        await putDraft({ id: entry.id, title: 'Draft', content: 'Half a thought', savedAt: NOW.toISOString() });
+        await putJobs([{ id: 1, type: 'coach', entryId: entry.id, status: 'pending', attempts: 0, nextAttemptAt: 0, createdAt: NOW.getTime() }]);
+        await putEntryAudio({ id: entry.id, clips: [{ id: 1, data: 'UklGRg==' }] });
+        return entry;
+    }
+
+    it('encrypts every store and reads it all back with the key', async () => {
+        const entry = await fillEveryStore();
+        const { config, key } = await createLock('correct horse');
+        await changeEncryption({ key, config });
+
+        for (const storeName of RECORD_STORES) {
+            const records = await readRaw(storeName);
+            expect(records, storeName).toHaveLength(1);
+            expect(Object.keys(records[0]).sort(), storeName).toEqual(['encrypted', 'id']);
+        }
+
+        const diary = await loadDiary();
+        expect(diary.entries).toEqual([entry]);
+        expect(diary.goals[0].text).toBe('Walk every day');
+        expect(diary.habits[0].name).toBe('Walk');
+        expect(diary.reviews[0].summary).toBe('A calm week.');
+        expect(diary.embeddings[0].vector).toEqual([0.5, 0.5]);
+        expect(diary.jobs[0].type).toBe('coach');
+        expect((await getEntryHistory(entry.id))[0].content).toBe(entry.content);
+        expect((await getDraft(entry.id))?.content).toBe('Half a thought');
+        expect(await getEntryAudio(entry.id)).toEqual([{ id: 1, data: 'UklGRg==' }]);
+    });
+
+    it('refuses to read or write while locked', async () => {
+        await fillEveryStore();
+        const { config, key } = await createLock('correct horse');
+        await changeEncryption({ key, config });
+        setEncryptionKey(null);
+
+        await expect(loadDiary()).rejects.toThrow('locked');
+        await expect(putEntries([createEntry(input({ content: 'Written while locked' }), NOW)])).rejects.toThrow('The diary is locked.');
+        setEncryptionKey(key);
+        expect((await loadDiary()).entries.map(e => e.content)).toEqual(['Walked by the river.']);
+    });
+
+    it('re-encrypts everything under a new passphrase', async () => {
+        const entry = await fillEveryStore();
+        const first = await createLock('correct horse');
+        await changeEncryption(first);
+        const second = await createLock('battery staple');
+        await changeEncryption(second);
+
+        setEncryptionKey(first.key);
+        await expect(loadDiary()).rejects.toThrow('decrypt');
+        setEncryptionKey(second.key);
+        expect((await loadDiary()).entries).toEqual([entry]);
+        expect((await getDraft(entry.id))?.content).toBe('Half a thought');
+        expect(await getLockConfig()).toEqual(second.config);
+    });
+
+    it('stores everything in plain text again when the lock is removed', async () => {
+        const entry = await fillEveryStore();
+        await changeEncryption(await createLock('correct horse'));
+        await changeEncryption(null);
+
+        for (const storeName of RECORD_STORES) {
+            expect((await readRaw(storeName))[0], storeName).not.toHaveProperty('encrypted');
+        }
+        expect(await getLockConfig()).toBeNull();
+        expect((await loadDiary()).entries).toEqual([entry]);
+    });
+});
+
+describe('opening the database', () => {
+    it('waits for an older tab to close instead of failing', async () => {
+        await deleteDatabase();
+        // An older version of the app that ignores the version change
+        const olderTab = await new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open('ai-diary', 1);
+            request.onupgradeneeded = () => ['entries', 'goals', 'meta'].forEach(name => request.result.createObjectStore(name, name === 'meta' ? undefined : { keyPath: 'id' }));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        const blocked = vi.fn(() => olderTab.close());
+        setBlockedHandler(blocked);
+
+        await expect(loadDiary()).resolves.toMatchObject({ entries: [] });
+        expect(blocked).toHaveBeenCalled();
+    });
+});
+
+describe('legacy data', () => {
+    it('imports entries from localStorage and gives those without a status the active status', async () => {
+        const id = NOW.getTime();
+        localStorage.setItem('diaryEntries', JSON.stringify([
+            { id, title: 'Before statuses', content: 'An old entry.', date: 'March 14, 2025' },
+            { id: id + 1, title: 'Thrown away', content: 'Another old entry.', date: 'March 14, 2025', status: 'trashed' },
+        ]));
+
+        const { entries } = await loadDiary();
+        const byId = new Map(entries.map(entry => [entry.id, entry]));
+        expect(byId.get(id)).toMatchObject({ status: 'active', entryDate: '2025-03-14', createdAt: NOW.toISOString() });
+        expect(byId.get(id + 1)?.status).toBe('trashed');
+        expect(localStorage.getItem('diaryEntries')).toBeNull();
+    });
+
+    it('keeps unreadable legacy data rather than losing it', async () => {
+        localStorage.setItem('diaryEntries', '{not json');
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        expect((await loadDiary()).entries).toEqual([]);
+        consoleError.mockRestore();
+        expect(localStorage.getItem('diaryEntries')).toBe('{not json');
+    });
+});
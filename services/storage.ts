@@ -0,0 +1,592 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { AiJob, DiaryEntry, EntryAudio, EntryDraft, EntryEmbedding, EntryHistory, EntryRevision, Goal, Habit, Review } from "../types";
+import { isRecord } from "../utils/guards";
+import { EncryptedPayload, LockConfig, decryptJson, encryptJson } from "./crypto";
+import { normalizeEntry } from "./entries";
+
+// --- Schema ---
+
+const DB_NAME = 'ai-diary';
+const LEGACY_ENTRIES_KEY = 'diaryEntries';
+const LEGACY_GOALS_KEY = 'diaryGoals';
+const LOCK_CONFIG_KEY = 'lock';
+
+type StoreName = 'entries' | 'goals' | 'meta' | 'embeddings' | 'reviews' | 'histories' | 'drafts' | 'jobs' | 'habits' | 'audio';
+
+/**
+ * Ordered schema migrations. Migration N upgrades a database at version N - 1 to version N and runs
+ * inside the versionchange transaction, so it may create stores and rewrite existing records.
+ * Append new migrations to the end; never edit or reorder the ones already shipped.
+ */
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+    // 1: Initial stores
+    (db) => {
+        db.createObjectStore('entries', { keyPath: 'id' });
+        db.createObjectStore('goals', { keyPath: 'id' });
+        db.createObjectStore('meta');
+    },
+    // 2: Entry embeddings for related entries and questions, keyed by entry ID
+    (db) => {
+        db.createObjectStore('embeddings', { keyPath: 'id' });
+    },
+    // 3: Weekly and monthly reviews
+    (db) => {
+        db.createObjectStore('reviews', { keyPath: 'id' });
+    },
+    // 4: Entry revision histories, keyed by entry ID
+    (db) => {
+        db.createObjectStore('histories', { keyPath: 'id' });
+    },
+    // 5: Autosaved drafts from the entry modal, keyed by entry ID (0 for a new entry)
+    (db) => {
+        db.createObjectStore('drafts', { keyPath: 'id' });
+    },
+    // 6: Background AI jobs
+    (db) => {
+        db.createObjectStore('jobs', { keyPath: 'id' });
+    },
+    // 7: Habits
+    (db) => {
+        db.createObjectStore('habits', { keyPath: 'id' });
+    },
+    // 8: Recorded audio of entries' voice clips, keyed by entry ID
+    (db) => {
+        db.createObjectStore('audio', { keyPath: 'id' });
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+export const NEW_ENTRY_DRAFT_ID = 0; // Entry IDs are creation times, so 0 is never a real entry
+
+/**
+ * Raised when the diary database cannot be opened, read or written.
+ */
+export class StorageError extends Error {
+    constructor(message: string, readonly cause?: unknown) {
+        super(message);
+        this.name = 'StorageError';
+    }
+}
+
+// --- Helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let encryptionKey: CryptoKey | null = null; // Set while the diary is unlocked, if a lock is configured
+let lockConfigured = false; // Refuse plaintext writes while a lock exists but no key is set
+let blockedHandler: () => void = () => console.warn("The diary database upgrade is waiting for other tabs to close.");
+
+/**
+ * How a record with an ID is stored when the diary is locked. Only the key stays readable.
+ */
+interface EncryptedRecord {
+    id: number;
+    encrypted: EncryptedPayload;
+}
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param {IDBRequest<T>} request - The request.
+ * @returns {Promise<T>} Resolves with the request result.
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolves once a transaction has committed.
+ * @param {IDBTransaction} transaction - The transaction.
+ * @returns {Promise<void>} Resolves on complete, rejects on error or abort.
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+}
+
+/**
+ * Opens (and if needed, upgrades) the diary database. The connection is shared.
+ * @returns {Promise<IDBDatabase>} The open database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new StorageError("This browser does not support IndexedDB."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                const transaction = request.transaction as IDBTransaction;
+                for (let version = event.oldVersion + 1; version <= SCHEMA_VERSION; version++) {
+                    MIGRATIONS[version - 1](db, transaction);
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // Let a newer version of the app in another tab upgrade the schema.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(new StorageError("Could not open the diary database.", request.error));
+            // An older tab still has the database open. The open continues once it closes, so only
+            // ask the user to close it; onsuccess or onerror settles the promise.
+            request.onblocked = () => blockedHandler();
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+/**
+ * Encrypts a record for storage if a key is set; otherwise stores it as-is.
+ * @param {T} record - The record.
+ * @param {CryptoKey | null} key - The key to encrypt with.
+ * @returns {Promise<T | EncryptedRecord>} The record to write.
+ */
+async function encodeRecord<T extends { id: number }>(record: T, key: CryptoKey | null = encryptionKey): Promise<T | EncryptedRecord> {
+    if (!key) return record;
+    return { id: record.id, encrypted: await encryptJson(key, record) };
+}
+
+/**
+ * Checks whether a stored record was written while the diary was locked.
+ * @param {unknown} stored - The stored record.
+ * @returns {boolean} Whether only its key is readable.
+ */
+function isEncryptedRecord(stored: unknown): stored is EncryptedRecord {
+    return isRecord(stored) && isRecord(stored.encrypted);
+}
+
+/**
+ * Decrypts a stored record if it is encrypted.
+ * @param {T | EncryptedRecord} stored - The stored record.
+ * @returns {Promise<T>} The plain record.
+ */
+async function decodeRecord<T>(stored: T | EncryptedRecord): Promise<T> {
+    if (!isEncryptedRecord(stored)) return stored;
+    if (!encryptionKey) {
+        throw new StorageError("The diary is locked.");
+    }
+    try {
+        return await decryptJson<T>(encryptionKey, stored.encrypted);
+    } catch (error) {
+        throw new StorageError("Could not decrypt your diary. The data may be corrupted.", error);
+    }
+}
+
+/**
+ * Copies entries and goals from the old single-key localStorage format into the database, once.
+ * The legacy keys are removed only after the import has committed.
+ * @param {IDBDatabase} db - The open database.
+ */
+async function importLegacyData(db: IDBDatabase) {
+    const storedEntries = localStorage.getItem(LEGACY_ENTRIES_KEY);
+    const storedGoals = localStorage.getItem(LEGACY_GOALS_KEY);
+    if (!storedEntries && !storedGoals) return;
+
+    let legacyEntries: unknown[];
+    let legacyGoals: Goal[];
+    try {
+        legacyEntries = storedEntries ? JSON.parse(storedEntries) : [];
+        legacyGoals = storedGoals ? JSON.parse(storedGoals) : [];
+    } catch (error) {
+        // Leave the unreadable data where it is rather than losing it.
+        console.error("Failed to parse legacy diary data from localStorage:", error);
+        return;
+    }
+
+    // Encrypt before opening the transaction; it would auto-commit while waiting on WebCrypto.
+    const encodedEntries = await Promise.all(legacyEntries.filter(isRecord).map(entry => encodeRecord(normalizeEntry(entry))));
+    const encodedGoals = await Promise.all(legacyGoals.map(goal => encodeRecord(goal)));
+
+    const transaction = db.transaction(['entries', 'goals'], 'readwrite');
+    const entriesStore = transaction.objectStore('entries');
+    const goalsStore = transaction.objectStore('goals');
+    // Records already in the database win; they are newer than the legacy copy.
+    const skipExisting = (request: IDBRequest) => {
+        request.onerror = (event) => {
+            event.preventDefault();
+            event.stopPropagation();
+        };
+    };
+    encodedEntries.forEach(entry => skipExisting(entriesStore.add(entry)));
+    encodedGoals.forEach(goal => skipExisting(goalsStore.add(goal)));
+    await transactionDone(transaction);
+
+    localStorage.removeItem(LEGACY_ENTRIES_KEY);
+    localStorage.removeItem(LEGACY_GOALS_KEY);
+}
+
+/**
+ * Reads and decrypts every record in a store.
+ * @param {StoreName} storeName - The store.
+ * @returns {Promise<T[]>} The records.
+ */
+async function getAll<T>(storeName: StoreName): Promise<T[]> {
+    const db = await openDatabase();
+    const stored = await promisifyRequest(db.transaction(storeName).objectStore(storeName).getAll());
+    return Promise.all(stored.map(record => decodeRecord<T>(record)));
+}
+
+/**
+ * Reads and decrypts a single record.
+ * @param {StoreName} storeName - The store.
+ * @param {number} id - The record's key.
+ * @returns {Promise<T | undefined>} The record, if there is one.
+ */
+async function getOne<T>(storeName: StoreName, id: number): Promise<T | undefined> {
+    const db = await openDatabase();
+    const stored = await promisifyRequest(db.transaction(storeName).objectStore(storeName).get(id));
+    return stored === undefined ? undefined : decodeRecord<T>(stored);
+}
+
+/**
+ * Encrypts (when locked) and writes records to a store in a single transaction.
+ * @param {StoreName} storeName - The store.
+ * @param {T[]} records - The records to insert or replace.
+ */
+async function putAll<T extends { id: number }>(storeName: StoreName, records: T[]) {
+    if (lockConfigured && !encryptionKey) {
+        throw new StorageError("The diary is locked.");
+    }
+    const encoded = await Promise.all(records.map(record => encodeRecord(record)));
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    encoded.forEach(record => store.put(record));
+    await transactionDone(transaction);
+}
+
+/**
+ * Deletes records from a store in a single transaction.
+ * @param {StoreName} storeName - The store.
+ * @param {number[]} ids - The keys of the records to delete.
+ */
+async function deleteAll(storeName: StoreName, ids: number[]) {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+}
+
+/**
+ * Runs a storage operation, converting any failure (including quota errors) into a StorageError.
+ * @param {string} message - The user-facing description of the failure.
+ * @param {() => Promise<T>} operation - The operation.
+ * @returns {Promise<T>} The operation's result.
+ */
+async function withStorageError<T>(message: string, operation: () => Promise<T>): Promise<T> {
+    try {
+        return await operation();
+    } catch (error) {
+        if (error instanceof StorageError) throw error;
+        const isQuotaError = error instanceof DOMException && error.name === 'QuotaExceededError';
+        throw new StorageError(isQuotaError ? `${message} Your browser's storage for this site is full.` : message, error);
+    }
+}
+
+// --- Public API ---
+
+/**
+ * Sets what happens when opening the database has to wait for another tab that has an older
+ * version open, such as telling the user to close it.
+ * @param {() => void} handler - Called each time the open is blocked.
+ */
+export function setBlockedHandler(handler: () => void) {
+    blockedHandler = handler;
+}
+
+/**
+ * Everything stored in the diary database, decrypted.
+ */
+export interface StoredDiary {
+    entries: DiaryEntry[];
+    goals: Goal[];
+    habits: Habit[];
+    embeddings: EntryEmbedding[];
+    reviews: Review[];
+    jobs: AiJob[];
+}
+
+/**
+ * Opens the database, importing legacy localStorage data on first run, and loads everything.
+ * @returns {Promise<StoredDiary>} All stored entries, goals, habits, embeddings, reviews and jobs.
+ */
+export function loadDiary(): Promise<StoredDiary> {
+    return withStorageError("Could not load your diary.", async () => {
+        const db = await openDatabase();
+        await importLegacyData(db);
+        const [entries, goals, habits, embeddings, reviews, jobs] = await Promise.all([
+            getAll<Record<string, unknown>>('entries'),
+            getAll<Goal>('goals'),
+            getAll<Habit>('habits'),
+            getAll<EntryEmbedding>('embeddings'),
+            getAll<Review>('reviews'),
+            getAll<AiJob>('jobs'),
+        ]);
+        return { entries: entries.map(normalizeEntry), goals, habits, embeddings, reviews, jobs };
+    });
+}
+
+/**
+ * Inserts or replaces diary entries.
+ * @param {DiaryEntry[]} entries - The entries to write.
+ */
+export function putEntries(entries: DiaryEntry[]): Promise<void> {
+    return withStorageError("Could not save your entry.", () => putAll('entries', entries));
+}
+
+/**
+ * Deletes diary entries, with their embeddings, revision histories, drafts and audio.
+ * @param {number[]} ids - The IDs of the entries to delete.
+ */
+export function deleteEntries(ids: number[]): Promise<void> {
+    return withStorageError("Could not delete your entry.", async () => {
+        const db = await openDatabase();
+        const transaction = db.transaction(['entries', 'embeddings', 'histories', 'drafts', 'audio'], 'readwrite');
+        ids.forEach(id => {
+            transaction.objectStore('entries').delete(id);
+            transaction.objectStore('embeddings').delete(id);
+            transaction.objectStore('histories').delete(id);
+            transaction.objectStore('drafts').delete(id);
+            transaction.objectStore('audio').delete(id);
+        });
+        await transactionDone(transaction);
+    });
+}
+
+/**
+ * Inserts or replaces entry embeddings.
+ * @param {EntryEmbedding[]} embeddings - The embeddings to write.
+ */
+export function putEmbeddings(embeddings: EntryEmbedding[]): Promise<void> {
+    return withStorageError("Could not save entry embeddings.", () => putAll('embeddings', embeddings));
+}
+
+/**
+ * Reads an entry's revision history. Histories are only needed in the edit modal, so unlike
+ * everything else they are read on demand rather than by loadDiary.
+ * @param {number} entryId - The entry's ID.
+ * @returns {Promise<EntryRevision[]>} The revisions, oldest first (empty if there are none).
+ */
+export function getEntryHistory(entryId: number): Promise<EntryRevision[]> {
+    return withStorageError("Could not load this entry's history.", async () => {
+        const history = await getOne<EntryHistory>('histories', entryId);
+        return history ? history.revisions : [];
+    });
+}
+
+/**
+ * Inserts or replaces an entry's revision history.
+ * @param {EntryHistory} history - The history to write.
+ */
+export function putEntryHistory(history: EntryHistory): Promise<void> {
+    return withStorageError("Could not save this entry's history.", () => putAll('histories', [history]));
+}
+
+/**
+ * Reads the recorded audio of an entry's clips. Like histories, audio is read on demand.
+ * @param {number} entryId - The entry's ID.
+ * @returns {Promise<EntryAudio['clips']>} The clips' audio (empty if there is none).
+ */
+export function getEntryAudio(entryId: number): Promise<EntryAudio['clips']> {
+    return withStorageError("Could not load this entry's recordings.", async () => {
+        const audio = await getOne<EntryAudio>('audio', entryId);
+        return audio ? audio.clips : [];
+    });
+}
+
+/**
+ * Inserts or replaces the recorded audio of an entry's clips. An entry without clips has its
+ * audio record deleted.
+ * @param {EntryAudio} audio - The audio to write.
+ */
+export function putEntryAudio(audio: EntryAudio): Promise<void> {
+    return withStorageError("Could not save your recording.", () => audio.clips.length > 0
+        ? putAll('audio', [audio])
+        : deleteAll('audio', [audio.id]));
+}
+
+/**
+ * Inserts or replaces background jobs.
+ * @param {AiJob[]} jobs - The jobs to write.
+ */
+export function putJobs(jobs: AiJob[]): Promise<void> {
+    return withStorageError("Could not save background work.", () => putAll('jobs', jobs));
+}
+
+/**
+ * Deletes background jobs.
+ * @param {number[]} ids - The IDs of the jobs to delete.
+ */
+export function deleteJobs(ids: number[]): Promise<void> {
+    return withStorageError("Could not update background work.", () => deleteAll('jobs', ids));
+}
+
+/**
+ * Reads the autosaved draft for an entry.
+ * @param {number} id - The entry's ID, or NEW_ENTRY_DRAFT_ID.
+ * @returns {Promise<EntryDraft | undefined>} The draft, if there is one.
+ */
+export function getDraft(id: number): Promise<EntryDraft | undefined> {
+    return withStorageError("Could not load your draft.", () => getOne<EntryDraft>('drafts', id));
+}
+
+/**
+ * Inserts or replaces a draft.
+ * @param {EntryDraft} draft - The draft to write.
+ */
+export function putDraft(draft: EntryDraft): Promise<void> {
+    return withStorageError("Could not save your draft.", () => putAll('drafts', [draft]));
+}
+
+/**
+ * Deletes a draft, if there is one.
+ * @param {number} id - The entry's ID, or NEW_ENTRY_DRAFT_ID.
+ */
+export function deleteDraft(id: number): Promise<void> {
+    return withStorageError("Could not delete your draft.", () => deleteAll('drafts', [id]));
+}
+
+/**
+ * Inserts or replaces goals.
+ * @param {Goal[]} goals - The goals to write.
+ */
+export function putGoals(goals: Goal[]): Promise<void> {
+    return withStorageError("Could not save your goals.", () => putAll('goals', goals));
+}
+
+/**
+ * Deletes goals.
+ * @param {number[]} ids - The IDs of the goals to delete.
+ */
+export function deleteGoals(ids: number[]): Promise<void> {
+    return withStorageError("Could not delete your goals.", () => deleteAll('goals', ids));
+}
+
+/**
+ * Inserts or replaces habits.
+ * @param {Habit[]} habits - The habits to write.
+ */
+export function putHabits(habits: Habit[]): Promise<void> {
+    return withStorageError("Could not save your habits.", () => putAll('habits', habits));
+}
+
+/**
+ * Deletes habits.
+ * @param {number[]} ids - The IDs of the habits to delete.
+ */
+export function deleteHabits(ids: number[]): Promise<void> {
+    return withStorageError("Could not delete your habits.", () => deleteAll('habits', ids));
+}
+
+/**
+ * Inserts or replaces reviews.
+ * @param {Review[]} reviews - The reviews to write.
+ */
+export function putReviews(reviews: Review[]): Promise<void> {
+    return withStorageError("Could not save your review.", () => putAll('reviews', reviews));
+}
+
+/**
+ * Replaces every stored entry, goal and habit, in a single transaction.
+ * Embeddings, reviews, histories, drafts, jobs and audio belong to the old entries, so they are cleared too.
+ * @param {DiaryEntry[]} entries - The new entries.
+ * @param {Goal[]} goals - The new goals.
+ * @param {Habit[]} habits - The new habits.
+ */
+export function replaceDiary(entries: DiaryEntry[], goals: Goal[], habits: Habit[]): Promise<void> {
+    return withStorageError("Could not replace your diary.", async () => {
+        if (lockConfigured && !encryptionKey) {
+            throw new StorageError("The diary is locked.");
+        }
+        const encodedEntries = await Promise.all(entries.map(entry => encodeRecord(entry)));
+        const encodedGoals = await Promise.all(goals.map(goal => encodeRecord(goal)));
+        const encodedHabits = await Promise.all(habits.map(habit => encodeRecord(habit)));
+
+        const db = await openDatabase();
+        const transaction = db.transaction(['entries', 'goals', 'habits', 'embeddings', 'reviews', 'histories', 'drafts', 'jobs', 'audio'], 'readwrite');
+        const entriesStore = transaction.objectStore('entries');
+        const goalsStore = transaction.objectStore('goals');
+        const habitsStore = transaction.objectStore('habits');
+        entriesStore.clear();
+        goalsStore.clear();
+        habitsStore.clear();
+        transaction.objectStore('embeddings').clear();
+        transaction.objectStore('reviews').clear();
+        transaction.objectStore('histories').clear();
+        transaction.objectStore('drafts').clear();
+        transaction.objectStore('jobs').clear();
+        transaction.objectStore('audio').clear();
+        encodedEntries.forEach(entry => entriesStore.put(entry));
+        encodedGoals.forEach(goal => goalsStore.put(goal));
+        encodedHabits.forEach(habit => habitsStore.put(habit));
+        await transactionDone(transaction);
+    });
+}
+
+/**
+ * Reads the passphrase lock configuration, if the diary is locked.
+ * @returns {Promise<LockConfig | null>} The configuration, or null if no lock is set.
+ */
+export function getLockConfig(): Promise<LockConfig | null> {
+    return withStorageError("Could not read your diary lock settings.", async () => {
+        const db = await openDatabase();
+        const config = await promisifyRequest(db.transaction('meta').objectStore('meta').get(LOCK_CONFIG_KEY));
+        lockConfigured = !!config;
+        return config || null;
+    });
+}
+
+/**
+ * Sets the key used to decrypt and encrypt records, after the user unlocks the diary.
+ * Pass null to forget it when the diary locks again.
+ * @param {CryptoKey | null} key - The derived key.
+ */
+export function setEncryptionKey(key: CryptoKey | null) {
+    encryptionKey = key;
+}
+
+/**
+ * Re-encrypts every stored record under a new key (or decrypts them all when the lock is removed),
+ * and stores the matching lock configuration, in a single transaction.
+ * The diary must be unlocked with the current key first.
+ * @param {{ key: CryptoKey; config: LockConfig } | null} lock - The new key and configuration, or null to remove the lock.
+ */
+export function changeEncryption(lock: { key: CryptoKey; config: LockConfig } | null): Promise<void> {
+    return withStorageError("Could not update your diary lock.", async () => {
+        const recordStores: StoreName[] = ['entries', 'goals', 'habits', 'embeddings', 'reviews', 'histories', 'drafts', 'jobs', 'audio'];
+        const newKey = lock ? lock.key : null;
+        const encodedStores = await Promise.all(recordStores.map(async storeName => {
+            const records = await getAll<{ id: number }>(storeName);
+            return Promise.all(records.map(record => encodeRecord(record, newKey)));
+        }));
+
+        const db = await openDatabase();
+        const transaction = db.transaction([...recordStores, 'meta'], 'readwrite');
+        recordStores.forEach((storeName, i) => {
+            encodedStores[i].forEach(record => transaction.objectStore(storeName).put(record));
+        });
+        if (lock) {
+            transaction.objectStore('meta').put(lock.config, LOCK_CONFIG_KEY);
+        } else {
+            transaction.objectStore('meta').delete(LOCK_CONFIG_KEY);
+        }
+        await transactionDone(transaction);
+        encryptionKey = newKey;
+        lockConfigured = !!lock;
+    });
+}
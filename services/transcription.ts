@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI } from "@google/genai";
+import { AiProviderId, AiSettings, DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL } from "./ai";
+
+/**
+ * Turns recorded speech into text. Each AI provider has its own; the rest of the app only talks
+ * to this, so a stub can stand in for a real model.
+ */
+export interface Transcriber {
+    readonly id: AiProviderId;
+    transcribe(audio: Blob): Promise<string>;
+}
+
+// OpenAI-compatible servers transcribe with a dedicated speech model rather than the chat model
+const OPENAI_TRANSCRIPTION_MODEL = 'whisper-1';
+
+const TRANSCRIPTION_INSTRUCTION = `Transcribe this voice note from the user's diary, word for word, in the language it was spoken in. Add punctuation and paragraph breaks where the speaker pauses or changes topic, and leave out filler words like "um" and "uh". Reply with the transcript only, without any preamble. If nothing was said, reply with an empty message.`;
+
+/**
+ * Creates the transcriber for the configured AI provider.
+ * @param {AiSettings} settings - The settings.
+ * @returns {Transcriber} The transcriber.
+ */
+export function createTranscriber(settings: AiSettings): Transcriber {
+    switch (settings.provider) {
+        case 'openai':
+            return new OpenAiCompatibleTranscriber(settings);
+        case 'mock':
+            return new MockTranscriber();
+        case 'gemini':
+        default:
+            return new GeminiTranscriber(settings);
+    }
+}
+
+/**
+ * Base64-encodes a blob, for sending audio inline and for storing it encrypted.
+ * @param {Blob} blob - The blob.
+ * @returns {Promise<string>} The base64 data, without a data: URL prefix.
+ */
+export async function blobToBase64(blob: Blob): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    // Chunked, since spreading a whole recording into fromCharCode overflows the call stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Decodes base64 data back into a blob.
+ * @param {string} data - The base64 data.
+ * @param {string} mimeType - The blob's type.
+ * @returns {Blob} The blob.
+ */
+export function base64ToBlob(data: string, mimeType: string): Blob {
+    return new Blob([Uint8Array.from(atob(data), char => char.charCodeAt(0))], { type: mimeType });
+}
+
+/**
+ * The MIME type without parameters such as codecs, which model APIs reject.
+ * @param {Blob} audio - The recording.
+ * @returns {string} The bare MIME type.
+ */
+function getBaseMimeType(audio: Blob): string {
+    return audio.type.split(';')[0].trim() || 'audio/webm';
+}
+
+// --- Gemini ---
+
+class GeminiTranscriber implements Transcriber {
+    readonly id = 'gemini';
+    private ai: GoogleGenAI;
+    private model: string;
+
+    constructor(settings: AiSettings) {
+        this.ai = new GoogleGenAI({ apiKey: settings.apiKey });
+        this.model = settings.model || DEFAULT_MODELS.gemini;
+    }
+
+    async transcribe(audio: Blob): Promise<string> {
+        const response = await this.ai.models.generateContent({
+            model: this.model,
+            contents: [{
+                role: 'user',
+                parts: [
+                    { inlineData: { mimeType: getBaseMimeType(audio), data: await blobToBase64(audio) } },
+                    { text: TRANSCRIPTION_INSTRUCTION },
+                ],
+            }],
+        });
+        return (response.text ?? '').trim();
+    }
+}
+
+// --- OpenAI-compatible (OpenAI, or a local server with a speech endpoint) ---
+
+class OpenAiCompatibleTranscriber implements Transcriber {
+    readonly id = 'openai';
+    private settings: AiSettings;
+
+    constructor(settings: AiSettings) {
+        this.settings = settings;
+    }
+
+    async transcribe(audio: Blob): Promise<string> {
+        const extension = getBaseMimeType(audio).split('/')[1] || 'webm';
+        const body = new FormData();
+        body.append('file', audio, `voice-note.${extension}`);
+        body.append('model', OPENAI_TRANSCRIPTION_MODEL);
+        body.append('response_format', 'json');
+
+        const headers: Record<string, string> = {};
+        if (this.settings.apiKey) {
+            headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+        }
+        const baseUrl = (this.settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+        const response = await fetch(`${baseUrl}/audio/transcriptions`, { method: 'POST', headers, body });
+        if (!response.ok) {
+            throw new Error(`Transcription failed with status ${response.status}: ${await response.text()}`);
+        }
+        const data = await response.json();
+        return (data.text ?? '').trim();
+    }
+}
+
+// --- Mock (tests and offline use) ---
+
+/**
+ * A local stub that never touches the network. It can't understand speech, so it describes the
+ * recording instead, which is enough to exercise dictation end to end.
+ */
+class MockTranscriber implements Transcriber {
+    readonly id = 'mock';
+
+    async transcribe(audio: Blob): Promise<string> {
+        return `Mock transcript of ${audio.size} bytes of ${getBaseMimeType(audio)} audio.`;
+    }
+}
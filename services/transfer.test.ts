@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { DiaryEntry } from '../types';
+import { createEntry } from './entries';
+import { ImportError, createJsonBundle, parseBundle } from './transfer';
+
+const entry = createEntry({ title: 'River walk', content: 'Walked by the river.', entryDate: '2025-03-14', details: {} }, new Date('2025-03-14T09:30:00.000Z'));
+
+function bundleWith(fields: Record<string, unknown>): string {
+    return createJsonBundle([{ ...entry, ...fields } as DiaryEntry], [], []);
+}
+
+describe('parseBundle', () => {
+    it('reads back an exported diary', () => {
+        const bundle = parseBundle(bundleWith({ tags: ['outdoors'], mood: 4, emotions: ['calm'], folder: 'Walks', habitsDone: [1] }));
+        expect(bundle.entries[0]).toMatchObject({ id: entry.id, tags: ['outdoors'], mood: 4, emotions: ['calm'], folder: 'Walks', habitsDone: [1] });
+    });
+
+    it.each([
+        ['tags that are not a list', { tags: 'work' }],
+        ['emotions that are not a list of words', { emotions: 3 }],
+        ['habits that are not a list of IDs', { habitsDone: {} }],
+        ['a mood outside 1 to 5', { mood: 7 }],
+        ['a fractional mood', { mood: 2.5 }],
+        ['a folder that is not text', { folder: ['Walks'] }],
+        ['a coaching conversation that is not a list', { coachThread: 'hi' }],
+        ['a malformed coaching message', { coachThread: [{ role: 'coach', text: 5, timestamp: 1 }] }],
+    ])('rejects %s', (_, fields) => {
+        expect(() => parseBundle(bundleWith(fields))).toThrow(ImportError);
+    });
+
+    it.each([
+        ['a file that is not an object', '[]'],
+        ['an entry that is not an object', JSON.stringify({ format: 'ai-diary', version: 2, entries: [null] })],
+        ['a goal that is not an object', JSON.stringify({ format: 'ai-diary', version: 2, entries: [], goals: ['Walk'] })],
+        ['a habit with an unknown frequency', JSON.stringify({ format: 'ai-diary', version: 2, entries: [], habits: [{ id: 1, name: 'Walk', frequency: 'hourly', target: 1 }] })],
+    ])('rejects %s', (_, text) => {
+        expect(() => parseBundle(text)).toThrow(ImportError);
+    });
+
+    it('normalizes imported tags', () => {
+        const bundle = parseBundle(bundleWith({ tags: ['<img src=x onerror=alert(1)>', 'Deep Focus', 'deep-focus', ''] }));
+        expect(bundle.entries[0].tags).toEqual(['img-srcx-onerroralert1', 'deep-focus']);
+    });
+});
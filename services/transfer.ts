@@ -0,0 +1,327 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CoachMessage, DiaryEntry, Goal, Habit } from "../types";
+import { createZip } from "../utils/zip";
+import { compareEntriesChronologically, formatEntryDate } from "../utils/dates";
+import { isRecord } from "../utils/guards";
+import { normalizeEntry } from "./entries";
+
+export const BUNDLE_FORMAT = 'ai-diary';
+export const BUNDLE_VERSION = 2; // 2: entries carry entryDate/createdAt/updatedAt instead of a display `date`
+
+/**
+ * A versioned JSON backup of the whole diary.
+ */
+export interface DiaryBundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string; // ISO timestamp
+    entries: DiaryEntry[];
+    goals: Goal[];
+    habits: Habit[]; // Missing from bundles exported before habits existed
+}
+
+/**
+ * How an imported bundle relates to the diary it is being imported into.
+ */
+export interface ImportPreview {
+    bundle: DiaryBundle;
+    newEntryCount: number;
+    duplicateIds: number[]; // Entry IDs present in both, whatever their content
+    changedDuplicateIds: number[]; // Duplicates whose imported copy differs from the existing entry
+}
+
+/**
+ * Raised when an import file is not a valid diary bundle.
+ */
+export class ImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImportError';
+    }
+}
+
+// --- Export ---
+
+/**
+ * Drops an entry's voice clips. Bundles don't carry recorded audio, so clips can't survive a round trip.
+ * @param {DiaryEntry} entry - The entry.
+ * @returns {DiaryEntry} The entry without audioClips.
+ */
+function withoutAudioClips(entry: DiaryEntry): DiaryEntry {
+    const { audioClips, ...rest } = entry;
+    return rest;
+}
+
+/**
+ * Serializes the diary as a versioned JSON bundle. Recorded audio is left out.
+ * @param {DiaryEntry[]} entries - All entries, including trashed ones.
+ * @param {Goal[]} goals - All goals.
+ * @param {Habit[]} habits - All habits.
+ * @returns {string} The bundle as JSON.
+ */
+export function createJsonBundle(entries: DiaryEntry[], goals: Goal[], habits: Habit[]): string {
+    const bundle: DiaryBundle = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        entries: entries.map(withoutAudioClips),
+        goals,
+        habits,
+    };
+    return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Quotes a value for YAML front matter.
+ * @param {string} value - The value.
+ * @returns {string} A double-quoted YAML string.
+ */
+function yamlString(value: string): string {
+    return JSON.stringify(value);
+}
+
+/**
+ * Renders an entry as Markdown with YAML front matter.
+ * @param {DiaryEntry} entry - The entry.
+ * @returns {string} The Markdown document.
+ */
+export function entryToMarkdown(entry: DiaryEntry): string {
+    const frontMatter = [
+        '---',
+        `id: ${entry.id}`,
+        `title: ${yamlString(entry.title)}`,
+        `date: ${entry.entryDate}`,
+        `created: ${entry.createdAt}`,
+        `updated: ${entry.updatedAt}`,
+        `status: ${entry.status}`,
+        ...(entry.mood ? [`mood: ${entry.mood}`] : []),
+        ...(entry.emotions && entry.emotions.length > 0 ? [`emotions: [${entry.emotions.map(yamlString).join(', ')}]`] : []),
+        ...(entry.tags && entry.tags.length > 0 ? [`tags: [${entry.tags.map(yamlString).join(', ')}]`] : []),
+        ...(entry.folder ? [`folder: ${yamlString(entry.folder)}`] : []),
+        ...(entry.template ? [`template: ${entry.template}`] : []),
+        ...(entry.prompt ? [`prompt: ${yamlString(entry.prompt)}`] : []),
+        '---',
+    ].join('\n');
+    let body = `# ${entry.title}\n\n${entry.content}`;
+    if (entry.coachSummary) {
+        body += `\n\n## AI Coach\n\n${entry.coachSummary}`;
+    }
+    return `${frontMatter}\n\n${body}\n`;
+}
+
+/**
+ * Renders entries as a single Markdown document, one front-matter block per entry, oldest first.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @returns {string} The Markdown document.
+ */
+export function createMarkdownExport(entries: DiaryEntry[]): string {
+    return sortOldestFirst(entries).map(entryToMarkdown).join('\n');
+}
+
+/**
+ * Renders entries as a zip of Markdown files, one per entry.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @returns {Blob} The zip archive.
+ */
+export function createMarkdownZip(entries: DiaryEntry[]): Blob {
+    return createZip(sortOldestFirst(entries).map(entry => ({
+        name: `${entry.id}-${slugify(entry.title)}.md`,
+        content: entryToMarkdown(entry),
+        modified: new Date(entry.updatedAt),
+    })));
+}
+
+/**
+ * Renders entries as plain text, oldest first.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @returns {string} The text.
+ */
+export function createPlainTextExport(entries: DiaryEntry[]): string {
+    return sortOldestFirst(entries).map(entry => {
+        const heading = `${entry.title}\n${formatEntryDate(entry.entryDate)}`;
+        const coach = entry.coachSummary ? `\n\nAI Coach:\n${entry.coachSummary}` : '';
+        return `${heading}\n\n${entry.content}${coach}`;
+    }).join('\n\n----------------------------------------\n\n') + '\n';
+}
+
+function sortOldestFirst(entries: DiaryEntry[]): DiaryEntry[] {
+    return [...entries].sort(compareEntriesChronologically);
+}
+
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'entry';
+}
+
+// --- Import ---
+
+/**
+ * Checks that a value looks like a diary entry from a bundle of the given version.
+ * @param {unknown} value - The value.
+ * @param {number} version - The bundle version.
+ * @returns {boolean} Whether it has the required fields.
+ */
+function isValidEntry(value: unknown, version: number): value is Record<string, unknown> {
+    if (!isRecord(value)) return false;
+    const hasDate = version < 2
+        ? typeof value.date === 'string'
+        : typeof value.entryDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.entryDate) && typeof value.createdAt === 'string' && typeof value.updatedAt === 'string';
+    return Number.isFinite(value.id) &&
+        typeof value.title === 'string' &&
+        typeof value.content === 'string' &&
+        hasDate &&
+        (value.status === undefined || value.status === 'active' || value.status === 'trashed') &&
+        (value.coachSummary === undefined || typeof value.coachSummary === 'string') &&
+        (value.coachThread === undefined || (Array.isArray(value.coachThread) && value.coachThread.every(isValidCoachMessage))) &&
+        (value.mood === undefined || (typeof value.mood === 'number' && Number.isInteger(value.mood) && value.mood >= 1 && value.mood <= 5)) &&
+        (value.emotions === undefined || isArrayOf(value.emotions, 'string')) &&
+        (value.tags === undefined || isArrayOf(value.tags, 'string')) &&
+        (value.folder === undefined || typeof value.folder === 'string') &&
+        (value.habitsDone === undefined || isArrayOf(value.habitsDone, 'number'));
+}
+
+/**
+ * Checks that a value is an array whose items all have the given type.
+ * @param {unknown} value - The value.
+ * @param {'string' | 'number'} type - The item type.
+ * @returns {boolean} Whether it is such an array.
+ */
+function isArrayOf(value: unknown, type: 'string' | 'number'): boolean {
+    return Array.isArray(value) && value.every((item: unknown) => typeof item === type);
+}
+
+/**
+ * Checks that a value looks like a message in a coaching conversation.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether it has the required fields.
+ */
+function isValidCoachMessage(value: unknown): value is CoachMessage {
+    return isRecord(value) &&
+        (value.role === 'user' || value.role === 'coach') &&
+        typeof value.text === 'string' &&
+        Number.isFinite(value.timestamp);
+}
+
+/**
+ * Checks that a value looks like a goal.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether it has the required fields.
+ */
+function isValidGoal(value: unknown): value is Goal {
+    return isRecord(value) &&
+        Number.isFinite(value.id) &&
+        typeof value.text === 'string' &&
+        Number.isFinite(value.originEntryId) &&
+        (value.status === 'open' || value.status === 'done' || value.status === 'dropped');
+}
+
+/**
+ * Checks that a value looks like a habit.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether it has the required fields.
+ */
+function isValidHabit(value: unknown): value is Habit {
+    return isRecord(value) &&
+        Number.isFinite(value.id) &&
+        typeof value.name === 'string' &&
+        (value.frequency === 'daily' || value.frequency === 'weekly') &&
+        typeof value.target === 'number' && Number.isInteger(value.target) && value.target >= 1 && value.target <= 7;
+}
+
+/**
+ * Parses and validates an exported JSON bundle.
+ * @param {string} text - The file contents.
+ * @returns {DiaryBundle} The bundle.
+ * @throws {ImportError} If the file is not a valid bundle.
+ */
+export function parseBundle(text: string): DiaryBundle {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ImportError("The file is not valid JSON.");
+    }
+    if (!isRecord(data) || data.format !== BUNDLE_FORMAT || typeof data.version !== 'number' || !Number.isInteger(data.version)) {
+        throw new ImportError("The file is not an AI Diary export.");
+    }
+    const version = data.version;
+    if (version > BUNDLE_VERSION) {
+        throw new ImportError("The file was exported by a newer version of the app. Please update and try again.");
+    }
+    if (!Array.isArray(data.entries)) {
+        throw new ImportError("The file does not contain any entries.");
+    }
+
+    const storedEntries: unknown[] = data.entries;
+    const entries = storedEntries.map((entry, index) => {
+        if (!isValidEntry(entry, version)) {
+            throw new ImportError(`Entry ${index + 1} in the file is missing required fields or has invalid values.`);
+        }
+        return normalizeEntry(entry);
+    });
+    const ids = new Set<number>();
+    entries.forEach(entry => {
+        if (ids.has(entry.id)) {
+            throw new ImportError(`The file contains more than one entry with ID ${entry.id}.`);
+        }
+        ids.add(entry.id);
+    });
+
+    const goals: unknown[] = Array.isArray(data.goals) ? data.goals : [];
+    if (!goals.every(isValidGoal)) {
+        throw new ImportError("The file contains invalid goals.");
+    }
+    const habits: unknown[] = Array.isArray(data.habits) ? data.habits : [];
+    if (!habits.every(isValidHabit)) {
+        throw new ImportError("The file contains invalid habits.");
+    }
+
+    return {
+        format: BUNDLE_FORMAT,
+        version,
+        exportedAt: String(data.exportedAt || ''),
+        entries: entries.map(withoutAudioClips),
+        goals,
+        habits,
+    };
+}
+
+/**
+ * Compares a bundle against the current diary so the user can choose how to import it.
+ * @param {DiaryBundle} bundle - The parsed bundle.
+ * @param {DiaryEntry[]} existingEntries - The entries already in the diary.
+ * @returns {ImportPreview} The comparison.
+ */
+export function previewImport(bundle: DiaryBundle, existingEntries: DiaryEntry[]): ImportPreview {
+    const existingById = new Map(existingEntries.map(entry => [entry.id, entry]));
+    const duplicates = bundle.entries.filter(entry => existingById.has(entry.id));
+    return {
+        bundle,
+        newEntryCount: bundle.entries.length - duplicates.length,
+        duplicateIds: duplicates.map(entry => entry.id),
+        changedDuplicateIds: duplicates
+            .filter(entry => JSON.stringify(entry) !== JSON.stringify(withoutAudioClips(existingById.get(entry.id) as DiaryEntry)))
+            .map(entry => entry.id),
+    };
+}
+
+/**
+ * Merges a bundle into the current diary. Entries, goals and habits that already exist are kept as they are.
+ * @param {DiaryBundle} bundle - The parsed bundle.
+ * @param {DiaryEntry[]} existingEntries - The entries already in the diary.
+ * @param {Goal[]} existingGoals - The goals already in the diary.
+ * @param {Habit[]} existingHabits - The habits already in the diary.
+ * @returns {{ entries: DiaryEntry[]; goals: Goal[]; habits: Habit[] }} Only the entries, goals and habits to add.
+ */
+export function mergeBundle(bundle: DiaryBundle, existingEntries: DiaryEntry[], existingGoals: Goal[], existingHabits: Habit[]): { entries: DiaryEntry[]; goals: Goal[]; habits: Habit[] } {
+    const entryIds = new Set(existingEntries.map(entry => entry.id));
+    const goalIds = new Set(existingGoals.map(goal => goal.id));
+    const habitIds = new Set(existingHabits.map(habit => habit.id));
+    return {
+        entries: bundle.entries.filter(entry => !entryIds.has(entry.id)),
+        goals: bundle.goals.filter(goal => !goalIds.has(goal.id)),
+        habits: bundle.habits.filter(habit => !habitIds.has(habit.id)),
+    };
+}
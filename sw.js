@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * The service worker that lets the diary load and work offline. The build (see the serviceWorker
+ * plugin in vite.config.ts) fills in the precache manifest placeholder below with the built files
+ * and a version that changes whenever any of them do, so a new build installs a new worker with a
+ * fresh cache.
+ *
+ * - The app shell (HTML, bundle, styles, manifest and icons) is served from the precache.
+ * - The Material Symbols stylesheet and font are cached on install and refreshed in the background.
+ * - Everything else, including every AI provider request, goes straight to the network.
+ */
+
+/** @type {{ version: string; urls: string[] }} */
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST;
+const PRECACHE_NAME = `ai-diary-precache-${PRECACHE_MANIFEST.version}`;
+const RUNTIME_CACHE_NAME = 'ai-diary-runtime';
+const APP_SHELL_URL = './';
+
+// Must match the stylesheet linked from index.html
+const FONT_STYLESHEETS = [
+    'https://fonts.googleapis.com/css2?family=Material+Symbols+Outlined:opsz,wght,FILL,GRAD@20..48,100..700,0..1,-50..200',
+];
+const RUNTIME_CACHE_ORIGINS = ['https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+/**
+ * Caches the font stylesheets and the font files they point to. Fonts are a nicety, so a failure
+ * here doesn't stop the worker from installing; they'll be picked up on first use instead.
+ */
+async function cacheFonts() {
+    const cache = await caches.open(RUNTIME_CACHE_NAME);
+    await Promise.allSettled(FONT_STYLESHEETS.map(async url => {
+        const response = await fetch(url);
+        if (!response.ok) return;
+        const css = await response.clone().text();
+        await cache.put(url, response);
+        const fontUrls = [...css.matchAll(/url\((['"]?)(https:[^'")]+)\1\)/g)].map(match => match[2]);
+        await Promise.allSettled(fontUrls.map(fontUrl => cache.add(fontUrl)));
+    }));
+}
+
+/**
+ * Serves a cached response straight away if there is one, and refreshes the cache from the network.
+ * @param {Request} request - The request.
+ * @returns {Promise<Response>} The cached or fetched response.
+ */
+async function staleWhileRevalidate(request) {
+    const cache = await caches.open(RUNTIME_CACHE_NAME);
+    const cached = await cache.match(request);
+    const fetched = fetch(request).then(response => {
+        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+    });
+    if (cached) {
+        fetched.catch(() => {}); // Offline: the cached copy will do
+        return cached;
+    }
+    return fetched;
+}
+
+self.addEventListener('install', event => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(PRECACHE_NAME);
+        await cache.addAll(PRECACHE_MANIFEST.urls);
+        await cacheFonts();
+        // Entries live in IndexedDB, not in the page, so the new version can take over right away
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names
+            .filter(name => name.startsWith('ai-diary-precache-') && name !== PRECACHE_NAME)
+            .map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate' && url.origin === self.location.origin) {
+        // Hash routes all load the same page
+        event.respondWith(caches.open(PRECACHE_NAME)
+            .then(cache => cache.match(APP_SHELL_URL))
+            .then(cached => cached || fetch(request)));
+    } else if (url.origin === self.location.origin) {
+        event.respondWith(caches.open(PRECACHE_NAME)
+            .then(cache => cache.match(request, { ignoreSearch: true }))
+            .then(cached => cached || fetch(request)));
+    } else if (RUNTIME_CACHE_ORIGINS.includes(url.origin)) {
+        event.respondWith(staleWhileRevalidate(request));
+    }
+});
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface DiaryEntry {
+    id: number;
+    entryDate: string; // YYYY-MM-DD: the day the entry is about, which may be before it was written
+    createdAt: string; // ISO timestamp
+    updatedAt: string; // ISO timestamp
+    title: string;
+    content: string;
+    status: 'active' | 'trashed';
+    trashedAt?: string; // ISO timestamp, set while the entry is in the trash
+    coachSummary?: string;
+    coachContextIds?: number[]; // IDs of earlier entries the coach was given
+    coachThread?: CoachMessage[]; // Follow-up conversation after the coachSummary
+    coachStyle?: CoachStyle; // How the coachSummary was prompted
+    mood?: number; // 1 (awful) to 5 (great)
+    moodSource?: 'user' | 'ai'; // 'ai' when an AI suggestion was accepted unchanged
+    emotions?: string[]; // Lowercase emotion tags
+    tags?: string[]; // Normalized user tags, see normalizeTag
+    folder?: string;
+    habitsDone?: number[]; // IDs of habits checked off for the entry's day
+    template?: string; // The journaling template the entry was started from, see JOURNAL_TEMPLATES
+    prompt?: string; // The daily writing prompt the entry answers
+    audioClips?: AudioClip[]; // Voice recordings kept with the entry; the audio itself is stored separately
+    titlePending?: boolean; // The title is a placeholder until the queued title job finishes
+}
+
+/**
+ * A saved version of an entry's text and coaching, kept so edits can be compared and undone.
+ */
+export interface EntryRevision {
+    id: number; // Sequential within the entry's history
+    savedAt: string; // ISO timestamp
+    title: string;
+    content: string;
+    coachSummary?: string;
+    coachContextIds?: number[];
+    coachThread?: CoachMessage[];
+    coachStyle?: CoachStyle;
+}
+
+/**
+ * Every saved revision of one entry, oldest first. Stored separately from the entry.
+ */
+export interface EntryHistory {
+    id: number; // The entry's ID
+    revisions: EntryRevision[];
+}
+
+/**
+ * A voice recording attached to an entry. Only the description lives on the entry.
+ */
+export interface AudioClip {
+    id: number;
+    mimeType: string;
+    durationMs: number;
+    recordedAt: string; // ISO timestamp
+}
+
+/**
+ * The recorded audio of an entry's clips, base64-encoded so it can be encrypted like any other
+ * record. Stored separately from the entry and read only when a clip is played.
+ */
+export interface EntryAudio {
+    id: number; // The entry's ID
+    clips: { id: number; data: string }[];
+}
+
+/**
+ * A piece of background AI work for an entry, persisted so it survives reloads and going offline.
+ * Finished jobs are deleted.
+ */
+export interface AiJob {
+    id: number;
+    type: 'title' | 'coach';
+    entryId: number;
+    status: 'pending' | 'running' | 'failed'; // 'failed' jobs have used up their attempts and wait for a manual retry
+    attempts: number; // Failed attempts so far
+    nextAttemptAt: number; // Timestamp; pending jobs don't run before this
+    lastError?: string;
+    createdAt: number;
+}
+
+/**
+ * Unsaved title and content from the entry modal, autosaved while the user writes.
+ */
+export interface EntryDraft {
+    id: number; // The edited entry's ID, or NEW_ENTRY_DRAFT_ID for a new entry
+    title: string;
+    content: string;
+    template?: string;
+    prompt?: string;
+    savedAt: string; // ISO timestamp
+    baseUpdatedAt?: string; // The edited entry's updatedAt when the draft was started
+}
+
+/**
+ * A coaching retrospective over every active entry in a week or month.
+ */
+export interface Review {
+    id: number;
+    period: 'week' | 'month';
+    start: string; // YYYY-MM-DD, first day of the period (weeks start on Monday)
+    end: string; // YYYY-MM-DD, last day of the period, inclusive
+    summary: string;
+    entryIds: number[]; // The entries the review was written from
+    sourceHash: string; // Fingerprint of those entries, to tell when the period has changed since
+    createdAt: string; // ISO timestamp
+}
+
+/**
+ * A vector embedding of an entry's title and content, used to find related entries.
+ * Stored separately from the entry and recomputed when the entry or the embedding model changes.
+ */
+export interface EntryEmbedding {
+    id: number; // The entry's ID
+    model: string;
+    contentHash: string; // See hashContent
+    vector: number[];
+}
+
+/**
+ * The persona, response format and prompt template a coaching response was generated with.
+ */
+export interface CoachStyle {
+    persona: string; // See PERSONAS
+    structure: string;
+    length: string;
+    template: 'default' | 'custom';
+    templateHash?: string; // Fingerprint of the custom template, to tell edits apart
+}
+
+/**
+ * A routine the user wants to keep up, checked off from the entries they write.
+ */
+export interface Habit {
+    id: number;
+    name: string;
+    frequency: 'daily' | 'weekly';
+    target: number; // Days per week the habit should be done; always 1 for daily habits
+    createdAt: number;
+    archived?: boolean; // Archived habits keep their history but are no longer offered in the editor
+}
+
+/**
+ * A single message in the follow-up conversation with the AI coach about an entry.
+ */
+export interface CoachMessage {
+    role: 'user' | 'coach';
+    text: string;
+    timestamp: number;
+}
+
+/**
+ * A goal or commitment the AI coach picked out of a coaching response.
+ */
+export interface Goal {
+    id: number;
+    text: string;
+    originEntryId: number; // The entry whose coaching produced this goal
+    dueDate?: string; // YYYY-MM-DD
+    status: 'open' | 'done' | 'dropped';
+    createdAt: number;
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry } from "../types";
+
+/**
+ * Formats a date as the YYYY-MM-DD string used by date inputs, goal due dates and entry dates.
+ * @param {Date} date - The date to format.
+ * @returns {string} The local calendar date.
+ */
+export function toDateInputValue(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD calendar date as local midnight (Date.parse would treat it as UTC).
+ * @param {string} value - The calendar date.
+ * @returns {Date} The date.
+ */
+export function parseDateInputValue(value: string): Date {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Formats an entry's calendar date for display in the user's locale.
+ * @param {string} entryDate - The YYYY-MM-DD calendar date.
+ * @returns {string} e.g. "October 18, 2026" or "18 October 2026".
+ */
+export function formatEntryDate(entryDate: string): string {
+    return parseDateInputValue(entryDate).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Formats an ISO timestamp for display in the user's locale and time zone.
+ * @param {string} timestamp - The ISO timestamp.
+ * @returns {string} The date and time.
+ */
+export function formatTimestamp(timestamp: string): string {
+    return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Formats a length of time as minutes and seconds, e.g. "2:05".
+ * @param {number} ms - The duration in milliseconds.
+ * @returns {string} The duration.
+ */
+export function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Orders entries by the day they are about, then by when they were written.
+ * @param {DiaryEntry} a - The first entry.
+ * @param {DiaryEntry} b - The second entry.
+ * @returns {number} Negative if a comes first chronologically.
+ */
+export function compareEntriesChronologically(a: DiaryEntry, b: DiaryEntry): number {
+    return a.entryDate.localeCompare(b.entryDate) || a.createdAt.localeCompare(b.createdAt) || a.id - b.id;
+}
+
+/**
+ * Works out the calendar date of an entry saved before entries had real dates. Those stored a
+ * locale-formatted string such as "October 18, 2026", with the creation time as the ID.
+ * @param {unknown} legacyDate - The old `date` string, if any.
+ * @param {number} id - The entry ID (its creation time in milliseconds).
+ * @returns {string} The YYYY-MM-DD calendar date.
+ */
+export function legacyDateToEntryDate(legacyDate: unknown, id: number): string {
+    if (typeof legacyDate === 'string') {
+        const parsed = new Date(legacyDate);
+        if (!isNaN(parsed.getTime())) {
+            return toDateInputValue(parsed);
+        }
+    }
+    return toDateInputValue(new Date(id));
+}
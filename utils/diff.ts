@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * Compares two texts line by line using the longest common subsequence.
+ * @param {string} before - The older text.
+ * @param {string} after - The newer text.
+ * @returns {DiffLine[]} Every line of both texts in order, removals before additions where they overlap.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // Matching lines at either end don't need the quadratic table
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    // lengths[i][j] is the LCS length of middleA[i..] and middleB[j..]
+    const lengths = Array.from({ length: middleA.length + 1 }, () => new Array<number>(middleB.length + 1).fill(0));
+    for (let i = middleA.length - 1; i >= 0; i--) {
+        for (let j = middleB.length - 1; j >= 0; j--) {
+            lengths[i][j] = middleA[i] === middleB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = a.slice(0, prefix).map(text => ({ type: 'same', text }));
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length || j < middleB.length) {
+        if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+            result.push({ type: 'same', text: middleA[i] });
+            i++;
+            j++;
+        } else if (j >= middleB.length || (i < middleA.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+            result.push({ type: 'removed', text: middleA[i] });
+            i++;
+        } else {
+            result.push({ type: 'added', text: middleB[j] });
+            j++;
+        }
+    }
+    return result.concat(a.slice(a.length - suffix).map(text => ({ type: 'same', text })));
+}
@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Checks that an untrusted value, such as parsed JSON, is a plain object whose fields can be inspected.
+ * @param {unknown} value - The value.
+ * @returns {boolean} Whether it is a non-null, non-array object.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
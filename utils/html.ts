@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+/**
+ * Escapes text for safe use in HTML content or a quoted attribute value.
+ * @param {string} text - The untrusted text.
+ * @returns {string} The escaped text.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { renderInlineMarkdown } from './markdown';
+
+describe('renderInlineMarkdown', () => {
+    it('leaves emphasis markers in link URLs alone', () => {
+        expect(renderInlineMarkdown('[x](https://ex.com/*a*)')).toBe('<a href="https://ex.com/*a*" target="_blank" rel="noopener noreferrer">x</a>');
+        expect(renderInlineMarkdown('[x](https://ex.com/_a_/)')).toContain('href="https://ex.com/_a_/"');
+    });
+
+    it('still formats link labels and the text around links', () => {
+        expect(renderInlineMarkdown('*see* [**this**](https://ex.com)')).toBe('<em>see</em> <a href="https://ex.com" target="_blank" rel="noopener noreferrer"><strong>this</strong></a>');
+    });
+
+    it('leaves links with unsafe schemes as text', () => {
+        expect(renderInlineMarkdown('[x](javascript:alert(1))')).toBe('[x](javascript:alert(1))');
+    });
+});
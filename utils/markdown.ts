@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { escapeHtml } from "./html";
+
+/**
+ * A small Markdown renderer for diary entries and coaching text. It escapes everything first and
+ * only ever emits the tags below, so its output is safe to assign to innerHTML whatever the input:
+ * raw HTML in the source shows up as text.
+ *
+ * Supported: paragraphs (single newlines become <br>), # headings, **bold**, *italic*, ~~strike~~,
+ * `code`, fenced code blocks, > quotes, - and 1. lists (nested by indentation), --- rules, and
+ * [links](https://…) with http(s) or mailto URLs.
+ */
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+
+/**
+ * Renders inline Markdown in a single block of text.
+ * @param {string} text - The raw text.
+ * @returns {string} Safe HTML.
+ */
+export function renderInlineMarkdown(text: string): string {
+    // Pull code spans out first so nothing inside them is formatted
+    const codeSpans: string[] = [];
+    let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code) => {
+        codeSpans.push(`<code>${code}</code>`);
+        return `\u0000${codeSpans.length - 1}\u0000`;
+    });
+
+    // Links are pulled out too, keeping their labels, so emphasis can't rewrite the URL
+    const linkTags: string[] = [];
+    html = html
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label, url) => {
+            // The URL is already escaped; only allow schemes that can't run script
+            const decodedUrl = url.replace(/&amp;/g, '&');
+            if (!SAFE_URL_PATTERN.test(decodedUrl)) return match;
+            linkTags.push(`<a href="${url}" target="_blank" rel="noopener noreferrer">`);
+            return `\u0001${linkTags.length - 1}\u0001${label}</a>`;
+        })
+        .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '<strong>$2</strong>')
+        .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<em>$1</em>')
+        .replace(/(?<![\p{L}\p{N}])_(?=\S)(.+?)(?<=\S)_(?![\p{L}\p{N}])/gu, '<em>$1</em>')
+        .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '<del>$1</del>');
+
+    return html
+        .replace(/\u0001(\d+)\u0001/g, (_, index) => linkTags[Number(index)])
+        .replace(/\u0000(\d+)\u0000/g, (_, index) => codeSpans[Number(index)]);
+}
+
+/**
+ * Renders a run of list lines, nesting items that are indented further than the first one.
+ * @param {string[]} lines - The list lines, including any indented continuation lines.
+ * @returns {string} Safe HTML.
+ */
+function renderList(lines: string[]): string {
+    const first = lines[0].match(LIST_ITEM_PATTERN) as RegExpMatchArray;
+    const baseIndent = first[1].length;
+    const isOrdered = /\d/.test(first[2]);
+    const items: { text: string[]; children: string[] }[] = [];
+
+    lines.forEach(line => {
+        const match = line.match(LIST_ITEM_PATTERN);
+        const indent = line.length - line.trimStart().length;
+        if (match && indent <= baseIndent + 1) {
+            items.push({ text: [match[3]], children: [] });
+        } else if (match || items[items.length - 1].children.length > 0) {
+            items[items.length - 1].children.push(line);
+        } else {
+            items[items.length - 1].text.push(line.trim());
+        }
+    });
+
+    const tag = isOrdered ? 'ol' : 'ul';
+    const start = isOrdered && parseInt(first[2], 10) !== 1 ? ` start="${parseInt(first[2], 10)}"` : '';
+    const itemsHtml = items.map(item => {
+        const nested = item.children.length > 0 ? renderList(item.children) : '';
+        return `<li>${item.text.map(renderInlineMarkdown).join('<br>')}${nested}</li>`;
+    }).join('');
+    return `<${tag}${start}>${itemsHtml}</${tag}>`;
+}
+
+/**
+ * Renders Markdown to safe HTML.
+ * @param {string} text - The raw Markdown.
+ * @returns {string} Safe HTML.
+ */
+export function renderMarkdown(text: string): string {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            blocks.push(`<p>${paragraph.map(renderInlineMarkdown).join('<br>')}</p>`);
+            paragraph = [];
+        }
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            flushParagraph();
+            i++;
+            continue;
+        }
+
+        if (FENCE_PATTERN.test(line)) {
+            flushParagraph();
+            const fence = (line.match(FENCE_PATTERN) as RegExpMatchArray)[1];
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence)) {
+                code.push(lines[i]);
+                i++;
+            }
+            i++; // Skip the closing fence
+            blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        const heading = line.match(HEADING_PATTERN);
+        if (heading) {
+            flushParagraph();
+            // Entry cards already use h3 for titles, so Markdown headings start below that
+            const level = Math.min(heading[1].length + 3, 6);
+            blocks.push(`<h${level}>${renderInlineMarkdown(heading[2])}</h${level}>`);
+            i++;
+            continue;
+        }
+
+        if (RULE_PATTERN.test(line)) {
+            flushParagraph();
+            blocks.push('<hr>');
+            i++;
+            continue;
+        }
+
+        if (QUOTE_PATTERN.test(line)) {
+            flushParagraph();
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+                quoted.push((lines[i].match(QUOTE_PATTERN) as RegExpMatchArray)[1]);
+                i++;
+            }
+            blocks.push(`<blockquote>${renderMarkdown(quoted.join('\n'))}</blockquote>`);
+            continue;
+        }
+
+        if (LIST_ITEM_PATTERN.test(line)) {
+            flushParagraph();
+            const listLines: string[] = [];
+            // The list runs until a blank line or a line that isn't an item or an indented continuation
+            while (i < lines.length && lines[i].trim() && (LIST_ITEM_PATTERN.test(lines[i]) || /^\s+\S/.test(lines[i]))) {
+                listLines.push(lines[i]);
+                i++;
+            }
+            blocks.push(renderList(listLines));
+            continue;
+        }
+
+        paragraph.push(line);
+        i++;
+    }
+    flushParagraph();
+    return blocks.join('');
+}
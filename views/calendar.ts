@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry } from "../types";
+import { parseDateInputValue, toDateInputValue } from "../utils/dates";
+
+/**
+ * Moves a YYYY-MM month string forwards or backwards.
+ * @param {string} month - The month.
+ * @param {number} offset - How many months to move.
+ * @returns {string} The new YYYY-MM month.
+ */
+export function shiftMonth(month: string, offset: number): string {
+    const date = parseDateInputValue(`${month}-01`);
+    date.setMonth(date.getMonth() + offset);
+    return toDateInputValue(date).slice(0, 7);
+}
+
+/**
+ * Counts entries per calendar day.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @returns {Map<string, number>} Entry counts keyed by YYYY-MM-DD.
+ */
+export function countEntriesByDate(entries: DiaryEntry[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => counts.set(entry.entryDate, (counts.get(entry.entryDate) || 0) + 1));
+    return counts;
+}
+
+/**
+ * Renders a month grid, weeks starting on Sunday, with days that have entries highlighted.
+ * @param {string} month - The YYYY-MM month to show.
+ * @param {Map<string, number>} counts - Entry counts keyed by YYYY-MM-DD.
+ * @param {string | null} selectedDate - The highlighted YYYY-MM-DD day, if any.
+ * @returns {string} The HTML for the calendar.
+ */
+export function renderCalendarHtml(month: string, counts: Map<string, number>, selectedDate: string | null): string {
+    const firstDay = parseDateInputValue(`${month}-01`);
+    const daysInMonth = new Date(firstDay.getFullYear(), firstDay.getMonth() + 1, 0).getDate();
+    const today = toDateInputValue(new Date());
+    const monthLabel = firstDay.toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+
+    // Localized weekday initials, starting from a known Sunday
+    const weekdays = Array.from({ length: 7 }, (_, i) =>
+        new Date(2024, 0, 7 + i).toLocaleDateString(undefined, { weekday: 'short' })
+    );
+
+    const cells: string[] = [];
+    for (let i = 0; i < firstDay.getDay(); i++) {
+        cells.push('<span class="calendar-cell calendar-cell-empty"></span>');
+    }
+    for (let day = 1; day <= daysInMonth; day++) {
+        const date = `${month}-${String(day).padStart(2, '0')}`;
+        const count = counts.get(date) || 0;
+        const classes = [
+            'calendar-cell',
+            'calendar-day',
+            count > 0 ? 'has-entries' : '',
+            date === today ? 'is-today' : '',
+            date === selectedDate ? 'is-selected' : '',
+        ].filter(Boolean).join(' ');
+        const label = parseDateInputValue(date).toLocaleDateString(undefined, { dateStyle: 'full' });
+        const countLabel = count > 0 ? `, ${count} ${count === 1 ? 'entry' : 'entries'}` : '';
+        cells.push(`
+            <button class="${classes}" data-date="${date}" aria-label="${label}${countLabel}" aria-pressed="${date === selectedDate}">
+                <span class="calendar-day-number">${day}</span>
+                ${count > 0 ? `<span class="calendar-day-count">${count}</span>` : ''}
+            </button>
+        `);
+    }
+
+    return `
+        <section class="calendar" aria-label="${monthLabel}">
+            <div class="calendar-header">
+                <button class="calendar-nav-btn" data-month-offset="-1" aria-label="Previous month">
+                    <span class="material-symbols-outlined">chevron_left</span>
+                </button>
+                <h2>${monthLabel}</h2>
+                <button class="calendar-nav-btn" data-month-offset="1" aria-label="Next month">
+                    <span class="material-symbols-outlined">chevron_right</span>
+                </button>
+            </div>
+            <div class="calendar-grid">
+                ${weekdays.map(weekday => `<span class="calendar-weekday">${weekday}</span>`).join('')}
+                ${cells.join('')}
+            </div>
+            <button class="calendar-today-btn" data-date="${today}">Today</button>
+        </section>
+    `;
+}
+
+/**
+ * Finds entries written on the same day and month as a date, in earlier years, grouped by year (most recent first).
+ * @param {DiaryEntry[]} entries - The entries to search.
+ * @param {Date} date - The day to match.
+ * @returns {{ year: number; entries: DiaryEntry[] }[]} The matching entries by year.
+ */
+export function findOnThisDay(entries: DiaryEntry[], date: Date): { year: number; entries: DiaryEntry[] }[] {
+    const today = toDateInputValue(date);
+    const monthDay = today.slice(5);
+    const byYear = new Map<number, DiaryEntry[]>();
+    entries
+        .filter(entry => entry.entryDate.slice(5) === monthDay && entry.entryDate < today)
+        .forEach(entry => {
+            const year = Number(entry.entryDate.slice(0, 4));
+            byYear.set(year, [...(byYear.get(year) || []), entry]);
+        });
+    return [...byYear.entries()]
+        .sort(([a], [b]) => b - a)
+        .map(([year, yearEntries]) => ({ year, entries: yearEntries }));
+}
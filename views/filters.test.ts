@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { DiaryEntry } from '../types';
+import { createEntry } from '../services/entries';
+import { SearchIndex } from '../services/search';
+import { EMPTY_FILTER, applyFilter, parseFilterQuery, renderFilterBarHtml } from './filters';
+
+function entry(id: number, content: string, details: Partial<DiaryEntry> = {}): DiaryEntry {
+    return { ...createEntry({ title: `Entry ${id}`, content, entryDate: '2025-03-14', details: {} }, new Date(id)), ...details };
+}
+
+const entries = [
+    entry(1, 'Long run along the river.', { tags: ['running'], mood: 4 }),
+    entry(2, 'Quiet evening with a book by the river.', { tags: ['reading'], folder: 'Home' }),
+    entry(3, 'Deadline stress at work.', { tags: ['work'], mood: 2, coachSummary: 'Try breaking it down.' }),
+];
+const searchIndex = new SearchIndex();
+searchIndex.rebuild(entries);
+
+function ids(list: DiaryEntry[]): number[] {
+    return list.map(e => e.id).sort();
+}
+
+describe('applyFilter', () => {
+    it('returns every entry for an empty filter', () => {
+        expect(ids(applyFilter(entries, EMPTY_FILTER, searchIndex))).toEqual([1, 2, 3]);
+    });
+
+    it('matches the search text against the index', () => {
+        expect(ids(applyFilter(entries, { ...EMPTY_FILTER, text: 'river' }, searchIndex))).toEqual([1, 2]);
+    });
+
+    it('combines the search text with structured filters', () => {
+        expect(ids(applyFilter(entries, { ...EMPTY_FILTER, text: 'river', tags: ['reading'] }, searchIndex))).toEqual([2]);
+        expect(ids(applyFilter(entries, { ...EMPTY_FILTER, folder: 'Home' }, searchIndex))).toEqual([2]);
+        expect(ids(applyFilter(entries, { ...EMPTY_FILTER, coached: 'yes' }, searchIndex))).toEqual([3]);
+    });
+
+    it('only filters the entries it is given', () => {
+        const active = entries.filter(e => e.id !== 1);
+        expect(ids(applyFilter(active, { ...EMPTY_FILTER, text: 'river' }, searchIndex))).toEqual([2]);
+    });
+
+    it('applies filters read from the URL', () => {
+        expect(ids(applyFilter(entries, parseFilterQuery('tags=work&mood=2'), searchIndex))).toEqual([3]);
+    });
+});
+
+describe('renderFilterBarHtml', () => {
+    it('escapes tags that never went through normalizeTag', () => {
+        const html = renderFilterBarHtml(EMPTY_FILTER, [{ tag: '<img src=x onerror=alert(1)>"', count: 1 }], []);
+        expect(html).not.toContain('<img');
+        expect(html).toContain('data-filter-tag="&lt;img src=x onerror=alert(1)&gt;&quot;"');
+    });
+});
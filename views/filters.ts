@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry } from "../types";
+import { escapeHtml } from "../utils/html";
+import { MOOD_LEVELS } from "./insights";
+import { SearchIndex } from "../services/search";
+
+/**
+ * The structured filter applied to entry lists. Every field is optional; an empty filter matches everything.
+ */
+export interface EntryFilter {
+    text: string;
+    tags: string[]; // Entries must have all of these tags
+    folder?: string;
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string; // YYYY-MM-DD, inclusive
+    mood?: number;
+    coached?: 'yes' | 'no';
+}
+
+export const EMPTY_FILTER: EntryFilter = { text: '', tags: [] };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalizes a user-typed tag: lowercase letters, digits, '_' and '-' only, words joined with hyphens.
+ * @param {string} tag - The raw tag.
+ * @returns {string} The normalized tag, or an empty string if nothing is left.
+ */
+export function normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase()
+        .replace(/[\s,]+/g, '-')
+        .replace(/[^\p{L}\p{N}_-]/gu, '')
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parses the query part of the URL hash (everything after '?') into a filter.
+ * Unknown or malformed parameters are ignored so a hand-edited URL can't break the view.
+ * @param {string} query - The query string, e.g. "tags=work,health&mood=4".
+ * @returns {EntryFilter} The filter.
+ */
+export function parseFilterQuery(query: string): EntryFilter {
+    const params = new URLSearchParams(query);
+    const filter: EntryFilter = {
+        text: params.get('q') || '',
+        tags: (params.get('tags') || '').split(',').map(normalizeTag).filter(Boolean),
+    };
+    const folder = params.get('folder');
+    if (folder) filter.folder = folder;
+    const from = params.get('from');
+    if (from && DATE_PATTERN.test(from)) filter.from = from;
+    const to = params.get('to');
+    if (to && DATE_PATTERN.test(to)) filter.to = to;
+    const mood = Number(params.get('mood'));
+    if (MOOD_LEVELS.some(level => level.score === mood)) filter.mood = mood;
+    const coached = params.get('coached');
+    if (coached === 'yes' || coached === 'no') filter.coached = coached;
+    return filter;
+}
+
+/**
+ * Serializes a filter for the URL hash. Inverse of parseFilterQuery.
+ * @param {EntryFilter} filter - The filter.
+ * @returns {string} The query string, empty when the filter is empty.
+ */
+export function filterToQuery(filter: EntryFilter): string {
+    const params = new URLSearchParams();
+    if (filter.text) params.set('q', filter.text);
+    if (filter.tags.length > 0) params.set('tags', filter.tags.join(','));
+    if (filter.folder) params.set('folder', filter.folder);
+    if (filter.from) params.set('from', filter.from);
+    if (filter.to) params.set('to', filter.to);
+    if (filter.mood) params.set('mood', String(filter.mood));
+    if (filter.coached) params.set('coached', filter.coached);
+    return params.toString();
+}
+
+/**
+ * Checks whether any of the structured (non-text) filters are set.
+ * @param {EntryFilter} filter - The filter.
+ * @returns {boolean} True if a tag, folder, date, mood or coaching filter is set.
+ */
+export function hasStructuredFilters(filter: EntryFilter): boolean {
+    return filter.tags.length > 0 || !!filter.folder || !!filter.from || !!filter.to || !!filter.mood || !!filter.coached;
+}
+
+/**
+ * Checks whether an entry matches the structured parts of a filter.
+ * The free text is a search query, matched separately by the search index.
+ * @param {DiaryEntry} entry - The entry.
+ * @param {EntryFilter} filter - The filter.
+ * @returns {boolean} True if the entry matches every tag, folder, date, mood and coaching filter.
+ */
+export function matchesFilter(entry: DiaryEntry, filter: EntryFilter): boolean {
+    const entryTags = entry.tags || [];
+    if (!filter.tags.every(tag => entryTags.includes(tag))) return false;
+    if (filter.folder && entry.folder !== filter.folder) return false;
+    if (filter.from && entry.entryDate < filter.from) return false;
+    if (filter.to && entry.entryDate > filter.to) return false;
+    if (filter.mood && entry.mood !== filter.mood) return false;
+    if (filter.coached && (filter.coached === 'yes') !== !!entry.coachSummary) return false;
+    return true;
+}
+
+/**
+ * Filters entries by a filter: the search query plus any tag, folder, date, mood or coaching filters.
+ * @param {DiaryEntry[]} list - The entries to filter.
+ * @param {EntryFilter} filter - The filter.
+ * @param {SearchIndex} searchIndex - The index the search query is matched against.
+ * @returns {DiaryEntry[]} The matching entries, or all of them when no filter is set.
+ */
+export function applyFilter(list: DiaryEntry[], filter: EntryFilter, searchIndex: SearchIndex): DiaryEntry[] {
+    const matchingIds = filter.text ? new Set(searchIndex.search(filter.text).map(result => result.id)) : null;
+    return list.filter(entry => (!matchingIds || matchingIds.has(entry.id)) && matchesFilter(entry, filter));
+}
+
+/**
+ * Counts how many entries use each tag.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @returns {{ tag: string; count: number }[]} Tags, most used first, then alphabetically.
+ */
+export function collectTags(entries: DiaryEntry[]): { tag: string; count: number }[] {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => (entry.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return [...counts.entries()]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Lists the folders in use.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @returns {string[]} Folder names, alphabetically.
+ */
+export function collectFolders(entries: DiaryEntry[]): string[] {
+    return [...new Set(entries.map(entry => entry.folder).filter((folder): folder is string => !!folder))]
+        .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Renders the filter bar shown above the entry list.
+ * @param {EntryFilter} filter - The active filter.
+ * @param {{ tag: string; count: number }[]} tags - The tags to offer.
+ * @param {string[]} folders - The folders to offer.
+ * @returns {string} The HTML for the filter bar.
+ */
+export function renderFilterBarHtml(filter: EntryFilter, tags: { tag: string; count: number }[], folders: string[]): string {
+    const tagChips = tags.map(({ tag, count }) => {
+        const isSelected = filter.tags.includes(tag);
+        return `<button type="button" class="tag-chip ${isSelected ? 'selected' : ''}" data-filter-tag="${escapeHtml(tag)}" aria-pressed="${isSelected}">#${escapeHtml(tag)} <span class="tag-count">${count}</span></button>`;
+    }).join('');
+    const folderOptions = folders.map(folder =>
+        `<option value="${escapeHtml(folder)}" ${filter.folder === folder ? 'selected' : ''}>${escapeHtml(folder)}</option>`
+    ).join('');
+    const moodOptions = MOOD_LEVELS.map(level =>
+        `<option value="${level.score}" ${filter.mood === level.score ? 'selected' : ''}>${level.emoji} ${level.label}</option>`
+    ).join('');
+
+    return `
+        <form class="filter-bar" id="filter-bar" aria-label="Filter entries">
+            <div class="filter-fields">
+                ${folders.length > 0 ? `
+                    <label>Folder
+                        <select data-filter-field="folder">
+                            <option value="">All folders</option>
+                            ${folderOptions}
+                        </select>
+                    </label>
+                ` : ''}
+                <label>From
+                    <input type="date" data-filter-field="from" value="${filter.from || ''}">
+                </label>
+                <label>To
+                    <input type="date" data-filter-field="to" value="${filter.to || ''}">
+                </label>
+                <label>Mood
+                    <select data-filter-field="mood">
+                        <option value="">Any mood</option>
+                        ${moodOptions}
+                    </select>
+                </label>
+                <label>Coaching
+                    <select data-filter-field="coached">
+                        <option value="">All entries</option>
+                        <option value="yes" ${filter.coached === 'yes' ? 'selected' : ''}>Coached</option>
+                        <option value="no" ${filter.coached === 'no' ? 'selected' : ''}>Not coached</option>
+                    </select>
+                </label>
+                ${hasStructuredFilters(filter) ? `<button type="button" class="filter-clear-btn" id="filter-clear-btn">Clear filters</button>` : ''}
+            </div>
+            ${tags.length > 0 ? `<div class="filter-tags">${tagChips}</div>` : ''}
+        </form>
+    `;
+}
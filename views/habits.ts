@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry, Habit } from "../types";
+import { parseDateInputValue, toDateInputValue } from "../utils/dates";
+import { escapeHtml } from "../utils/html";
+import { periodStart } from "./insights";
+
+export const HEATMAP_WEEKS = 26;
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', 'Sun'];
+
+/**
+ * Moves a YYYY-MM-DD date by a number of days.
+ * @param {string} date - The date.
+ * @param {number} days - The number of days, negative to go back.
+ * @returns {string} The YYYY-MM-DD result.
+ */
+function addDays(date: string, days: number): string {
+    const result = parseDateInputValue(date);
+    result.setDate(result.getDate() + days);
+    return toDateInputValue(result);
+}
+
+/**
+ * Describes how often a habit should be done, e.g. "Daily" or "3× a week".
+ * @param {Habit} habit - The habit.
+ * @returns {string} The description.
+ */
+export function describeHabitTarget(habit: Habit): string {
+    if (habit.frequency === 'daily') return 'Daily';
+    return habit.target === 1 ? 'Once a week' : `${habit.target}× a week`;
+}
+
+/**
+ * Finds the days a habit was checked off. A day counts if any active entry for it has the habit ticked.
+ * @param {Habit} habit - The habit.
+ * @param {DiaryEntry[]} entries - All entries.
+ * @returns {Set<string>} The YYYY-MM-DD days.
+ */
+export function getHabitDates(habit: Habit, entries: DiaryEntry[]): Set<string> {
+    return new Set(entries
+        .filter(entry => entry.status === 'active' && entry.habitsDone?.includes(habit.id))
+        .map(entry => entry.entryDate));
+}
+
+/**
+ * Counts check-offs in each week (starting on Monday).
+ * @param {Set<string>} dates - The days the habit was done.
+ * @returns {Map<string, number>} Days done by the YYYY-MM-DD start of each week.
+ */
+function countByWeek(dates: Set<string>): Map<string, number> {
+    const counts = new Map<string, number>();
+    dates.forEach(date => {
+        const week = periodStart(date, 'week');
+        counts.set(week, (counts.get(week) || 0) + 1);
+    });
+    return counts;
+}
+
+/**
+ * Works out a habit's streaks: consecutive days done for a daily habit, or consecutive weeks that
+ * met the target for a weekly one. A streak is still current if it reaches the previous day (or
+ * week), since today (or this week) isn't over yet.
+ * @param {Habit} habit - The habit.
+ * @param {Set<string>} dates - The days the habit was done.
+ * @param {string} today - The YYYY-MM-DD day to count up to; later check-offs are ignored.
+ * @returns {{ current: number; longest: number }} The streaks, in days or weeks.
+ */
+export function calculateHabitStreak(habit: Habit, dates: Set<string>, today: string): { current: number; longest: number } {
+    const step = habit.frequency === 'daily' ? 1 : 7;
+    const pastDates = new Set([...dates].filter(date => date <= today));
+    const periods = habit.frequency === 'daily'
+        ? [...pastDates].sort()
+        : [...countByWeek(pastDates)].filter(([, count]) => count >= habit.target).map(([week]) => week).sort();
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    periods.forEach(period => {
+        run = previous && addDays(previous, step) === period ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = period;
+    });
+
+    const currentPeriod = habit.frequency === 'daily' ? today : periodStart(today, 'week');
+    const last = periods[periods.length - 1];
+    const current = last === currentPeriod || last === addDays(currentPeriod, -step) ? run : 0;
+    return { current, longest };
+}
+
+/**
+ * Measures progress in the current day or week.
+ * @param {Habit} habit - The habit.
+ * @param {Set<string>} dates - The days the habit was done.
+ * @param {string} today - The YYYY-MM-DD day.
+ * @returns {{ done: number; target: number }} Days done so far and the number aimed for.
+ */
+export function getPeriodProgress(habit: Habit, dates: Set<string>, today: string): { done: number; target: number } {
+    if (habit.frequency === 'daily') {
+        return { done: dates.has(today) ? 1 : 0, target: 1 };
+    }
+    const weekStart = periodStart(today, 'week');
+    const done = [...dates].filter(date => date >= weekStart && date <= today).length;
+    return { done, target: habit.target };
+}
+
+/**
+ * Draws the last HEATMAP_WEEKS weeks of a habit as an SVG grid: one column per week, one row per
+ * weekday. For weekly habits, weeks that met the target are underlined.
+ * @param {Habit} habit - The habit.
+ * @param {Set<string>} dates - The days the habit was done.
+ * @param {string} today - The YYYY-MM-DD day the grid ends on.
+ * @returns {string} The SVG markup.
+ */
+export function renderHabitHeatmapSvg(habit: Habit, dates: Set<string>, today: string): string {
+    const cell = 12;
+    const gap = 3;
+    const left = 28;
+    const top = 4;
+    const firstWeek = addDays(periodStart(today, 'week'), -7 * (HEATMAP_WEEKS - 1));
+    const weekCounts = countByWeek(dates);
+    const width = left + HEATMAP_WEEKS * (cell + gap);
+    const height = top + 7 * (cell + gap) + 6;
+
+    const labels = WEEKDAY_LABELS.map((label, row) => label
+        ? `<text x="${left - 6}" y="${top + row * (cell + gap) + cell - 2}" class="chart-axis-label" text-anchor="end">${label}</text>`
+        : ''
+    ).join('');
+
+    let cells = '';
+    for (let week = 0; week < HEATMAP_WEEKS; week++) {
+        const weekStart = addDays(firstWeek, 7 * week);
+        const x = left + week * (cell + gap);
+        for (let row = 0; row < 7; row++) {
+            const date = addDays(weekStart, row);
+            if (date > today) break;
+            const isDone = dates.has(date);
+            cells += `<rect x="${x}" y="${top + row * (cell + gap)}" width="${cell}" height="${cell}" rx="2" class="habit-cell ${isDone ? 'habit-cell-done' : ''}"><title>${date}: ${isDone ? 'done' : 'not done'}</title></rect>`;
+        }
+        if (habit.frequency === 'weekly' && (weekCounts.get(weekStart) || 0) >= habit.target) {
+            cells += `<rect x="${x}" y="${top + 7 * (cell + gap)}" width="${cell}" height="3" class="habit-week-met" />`;
+        }
+    }
+
+    return `
+        <svg class="habit-heatmap" viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeHtml(habit.name)}: the last ${HEATMAP_WEEKS} weeks">
+            ${labels}
+            ${cells}
+        </svg>
+    `;
+}
+
+/**
+ * Summarizes how habits went over a range of days, for the AI coach. Archived habits and habits
+ * that didn't exist yet are left out; a habit starts on the day it was created or first ticked,
+ * whichever is earlier, so entries written for past days count.
+ * @param {Habit[]} habits - All habits.
+ * @param {DiaryEntry[]} entries - All entries.
+ * @param {string} start - The YYYY-MM-DD first day of the range.
+ * @param {string} end - The YYYY-MM-DD last day of the range, inclusive.
+ * @returns {string} One line per habit, or an empty string if there are none.
+ */
+export function formatHabitsForPrompt(habits: Habit[], entries: DiaryEntry[], start: string, end: string): string {
+    return habits
+        .filter(habit => !habit.archived)
+        .map(habit => ({ habit, dates: getHabitDates(habit, entries) }))
+        .map(item => ({ ...item, firstDay: [toDateInputValue(new Date(item.habit.createdAt)), ...item.dates].sort()[0] }))
+        .filter(({ firstDay }) => firstDay <= end)
+        .map(({ habit, dates, firstDay }) => {
+            const streak = calculateHabitStreak(habit, dates, end);
+            // Don't count days before the habit existed against it
+            const from = firstDay > start ? firstDay : start;
+            const inRange = [...dates].filter(date => date >= from && date <= end).sort();
+
+            if (habit.frequency === 'daily') {
+                const days = Math.round((parseDateInputValue(end).getTime() - parseDateInputValue(from).getTime()) / 86400000) + 1;
+                return `- ${habit.name} (daily): done on ${inRange.length} of ${days} days from ${from} to ${end}; streak as of ${end}: ${streak.current} ${streak.current === 1 ? 'day' : 'days'}${inRange.length > 0 ? ` (done on ${inRange.join(', ')})` : ''}`;
+            }
+
+            const weeks: string[] = [];
+            for (let week = periodStart(from, 'week'); week <= end; week = addDays(week, 7)) {
+                const count = inRange.filter(date => periodStart(date, 'week') === week).length;
+                const isUnfinished = addDays(week, 6) > end;
+                weeks.push(`week of ${week}: ${count} of ${habit.target} days${isUnfinished ? ' so far' : ''}`);
+            }
+            return `- ${habit.name} (${describeHabitTarget(habit).toLowerCase()}): ${weeks.join('; ')}; streak as of ${end}: ${streak.current} ${streak.current === 1 ? 'week' : 'weeks'} meeting the target`;
+        })
+        .join('\n');
+}
+
+/**
+ * Summarizes habits for coaching an entry: the week of the entry and the week before, up to the
+ * entry's day.
+ * @param {Habit[]} habits - All habits.
+ * @param {DiaryEntry[]} entries - All entries.
+ * @param {string} entryDate - The YYYY-MM-DD day of the entry.
+ * @returns {string} One line per habit, or an empty string if there are none.
+ */
+export function formatHabitsForEntry(habits: Habit[], entries: DiaryEntry[], entryDate: string): string {
+    return formatHabitsForPrompt(habits, entries, addDays(periodStart(entryDate, 'week'), -7), entryDate);
+}
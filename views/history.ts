@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry, EntryRevision } from "../types";
+import { DiffLine, diffLines } from "../utils/diff";
+import { escapeHtml } from "../utils/html";
+import { formatTimestamp } from "../utils/dates";
+
+export const MAX_REVISIONS = 100; // Per entry; the oldest are dropped first
+const DIFF_CONTEXT_LINES = 2; // Unchanged lines kept around each change
+
+/**
+ * Checks whether a revision holds the same text and coaching as an entry.
+ * @param {EntryRevision} revision - The revision.
+ * @param {DiaryEntry} entry - The entry.
+ * @returns {boolean} True if restoring the revision would change nothing.
+ */
+export function isRevisionOf(revision: EntryRevision, entry: DiaryEntry): boolean {
+    return revision.title === entry.title && revision.content === entry.content && revision.coachSummary === entry.coachSummary;
+}
+
+/**
+ * Adds a save to an entry's history. If the entry changed since the last revision without being
+ * saved from the editor (it predates history, or was coached since), that state is kept first so
+ * nothing the save replaces is lost.
+ * @param {EntryRevision[]} revisions - The existing history, oldest first.
+ * @param {DiaryEntry | null} previous - The entry before the save, or null for a new entry.
+ * @param {DiaryEntry} saved - The entry after the save.
+ * @returns {EntryRevision[]} The new history.
+ */
+export function appendRevision(revisions: EntryRevision[], previous: DiaryEntry | null, saved: DiaryEntry): EntryRevision[] {
+    const result = [...revisions];
+    const addRevision = (entry: DiaryEntry, savedAt: string) => {
+        const last = result[result.length - 1];
+        if (last && isRevisionOf(last, entry)) return;
+        result.push({
+            id: last ? last.id + 1 : 1,
+            savedAt,
+            title: entry.title,
+            content: entry.content,
+            coachSummary: entry.coachSummary,
+            coachContextIds: entry.coachContextIds,
+            coachThread: entry.coachThread,
+            coachStyle: entry.coachStyle,
+        });
+    };
+    if (previous) addRevision(previous, previous.updatedAt);
+    addRevision(saved, saved.updatedAt);
+    return result.slice(-MAX_REVISIONS);
+}
+
+/**
+ * Collapses long runs of unchanged lines, keeping a little context around each change.
+ * @param {DiffLine[]} lines - The full diff.
+ * @returns {(DiffLine | number)[]} The lines to show, with the number of hidden lines in place of each collapsed run.
+ */
+function collapseUnchanged(lines: DiffLine[]): (DiffLine | number)[] {
+    const isNearChange = (index: number) => lines
+        .slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1)
+        .some(line => line.type !== 'same');
+    const result: (DiffLine | number)[] = [];
+    lines.forEach((line, index) => {
+        if (line.type !== 'same' || isNearChange(index)) {
+            result.push(line);
+        } else if (typeof result[result.length - 1] === 'number') {
+            (result[result.length - 1] as number)++;
+        } else {
+            result.push(1);
+        }
+    });
+    return result;
+}
+
+/**
+ * Renders the line diff between two revisions.
+ * @param {EntryRevision | undefined} before - The earlier revision, if there is one.
+ * @param {EntryRevision} after - The later revision.
+ * @returns {string} The HTML.
+ */
+function renderDiffHtml(before: EntryRevision | undefined, after: EntryRevision): string {
+    if (!before) {
+        return `<p class="placeholder">The first saved version.</p>`;
+    }
+    const titleChange = before.title !== after.title
+        ? `<p class="diff-title">Title: <del>${escapeHtml(before.title)}</del> → <ins>${escapeHtml(after.title)}</ins></p>`
+        : '';
+    const lines = diffLines(before.content, after.content);
+    if (!lines.some(line => line.type !== 'same')) {
+        return `${titleChange}<p class="placeholder">${titleChange ? 'The text is unchanged.' : 'Only the coaching changed.'}</p>`;
+    }
+    const markers = { same: ' ', added: '+', removed: '−' };
+    const linesHtml = collapseUnchanged(lines).map(line => typeof line === 'number'
+        ? `<div class="diff-line diff-skipped">… ${line} unchanged line${line === 1 ? '' : 's'}</div>`
+        : `<div class="diff-line diff-${line.type}"><span class="diff-marker" aria-hidden="true">${markers[line.type]}</span>${escapeHtml(line.text) || '&nbsp;'}</div>`
+    ).join('');
+    return `${titleChange}<div class="diff">${linesHtml}</div>`;
+}
+
+/**
+ * Renders the History panel of the edit modal: the list of revisions, newest first, and the
+ * selected revision's changes with the actions that apply to it.
+ * @param {EntryRevision[]} revisions - The entry's history, oldest first.
+ * @param {number | null} selectedId - The selected revision, or null for the newest.
+ * @param {DiaryEntry} entry - The entry as it is now.
+ * @returns {string} The HTML.
+ */
+export function renderHistoryHtml(revisions: EntryRevision[], selectedId: number | null, entry: DiaryEntry): string {
+    if (revisions.length === 0) {
+        return `<p class="placeholder">No earlier versions yet. Each time you save, a version is kept here.</p>`;
+    }
+    const selected = revisions.find(r => r.id === selectedId) || revisions[revisions.length - 1];
+    const previous = revisions[revisions.indexOf(selected) - 1];
+
+    const listHtml = [...revisions].reverse().map(revision => `
+        <li>
+            <button type="button" class="revision-item ${revision === selected ? 'active' : ''}" data-revision-id="${revision.id}">
+                <span class="revision-time">${formatTimestamp(revision.savedAt)}</span>
+                <span class="revision-title">${escapeHtml(revision.title || 'Untitled')}</span>
+                ${revision.coachSummary ? `<span class="revision-badge">Coached</span>` : ''}
+                ${isRevisionOf(revision, entry) ? `<span class="revision-badge">Current</span>` : ''}
+            </button>
+        </li>
+    `).join('');
+
+    const actions = [
+        !isRevisionOf(selected, entry)
+            ? `<button type="button" class="restore-revision-btn" data-revision-id="${selected.id}">Restore this version</button>`
+            : '',
+        selected.coachSummary && selected.coachSummary !== entry.coachSummary
+            ? `<button type="button" class="recover-coaching-btn" data-revision-id="${selected.id}">Recover its coaching</button>`
+            : '',
+    ].join('');
+
+    return `
+        <ol class="revision-list">${listHtml}</ol>
+        <div class="revision-detail">
+            ${renderDiffHtml(previous, selected)}
+            ${actions ? `<div class="revision-actions">${actions}</div>` : ''}
+        </div>
+    `;
+}
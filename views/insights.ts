@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry } from "../types";
+import { parseDateInputValue, toDateInputValue } from "../utils/dates";
+
+export const MOOD_LEVELS: { score: number; emoji: string; label: string }[] = [
+    { score: 1, emoji: '😞', label: 'Awful' },
+    { score: 2, emoji: '🙁', label: 'Low' },
+    { score: 3, emoji: '😐', label: 'Okay' },
+    { score: 4, emoji: '🙂', label: 'Good' },
+    { score: 5, emoji: '😄', label: 'Great' },
+];
+
+export const COMMON_EMOTIONS = ['happy', 'grateful', 'calm', 'excited', 'proud', 'tired', 'anxious', 'stressed', 'sad', 'frustrated', 'lonely', 'hopeful'];
+
+export type InsightsPeriod = 'week' | 'month';
+
+interface PeriodAverage {
+    start: string; // YYYY-MM-DD of the first day of the period
+    label: string;
+    average: number;
+    count: number;
+}
+
+/**
+ * Looks up the display details for a mood score.
+ * @param {number} score - The 1-5 mood score.
+ * @returns {{ score: number; emoji: string; label: string } | undefined} The mood level.
+ */
+export function getMoodLevel(score: number) {
+    return MOOD_LEVELS.find(level => level.score === Math.round(score));
+}
+
+/**
+ * Finds the first day of the week (Monday) or month containing a date.
+ * @param {string} entryDate - The YYYY-MM-DD date.
+ * @param {InsightsPeriod} period - The period size.
+ * @returns {string} The YYYY-MM-DD start of the period.
+ */
+export function periodStart(entryDate: string, period: InsightsPeriod): string {
+    if (period === 'month') return `${entryDate.slice(0, 7)}-01`;
+    const date = parseDateInputValue(entryDate);
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return toDateInputValue(date);
+}
+
+/**
+ * Averages mood scores per week or month, oldest first.
+ * @param {DiaryEntry[]} entries - The entries; those without a mood are ignored.
+ * @param {InsightsPeriod} period - The period size.
+ * @returns {PeriodAverage[]} One average per period that has at least one mood.
+ */
+export function averageMoodByPeriod(entries: DiaryEntry[], period: InsightsPeriod): PeriodAverage[] {
+    const totals = new Map<string, { sum: number; count: number }>();
+    entries.forEach(entry => {
+        if (!entry.mood) return;
+        const start = periodStart(entry.entryDate, period);
+        const total = totals.get(start) || { sum: 0, count: 0 };
+        total.sum += entry.mood;
+        total.count += 1;
+        totals.set(start, total);
+    });
+    return [...totals.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([start, total]) => {
+            const date = parseDateInputValue(start);
+            const label = period === 'month'
+                ? date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+                : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+            return { start, label, average: total.sum / total.count, count: total.count };
+        });
+}
+
+/**
+ * Works out journaling streaks: runs of consecutive days with at least one entry.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @param {Date} today - Today's date.
+ * @returns {{ current: number; longest: number }} The current streak (ending today or yesterday) and the longest ever.
+ */
+export function calculateStreaks(entries: DiaryEntry[], today: Date): { current: number; longest: number } {
+    const days = [...new Set(entries.map(entry => entry.entryDate))].sort();
+    let longest = 0;
+    let run = 0;
+    let previous: Date | null = null;
+    days.forEach(day => {
+        const date = parseDateInputValue(day);
+        const isNextDay = previous && Math.round((date.getTime() - previous.getTime()) / 86400000) === 1;
+        run = isNextDay ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = date;
+    });
+
+    // The current streak is still alive if the last entry was today or yesterday.
+    const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+    const lastDay = days[days.length - 1];
+    const current = lastDay === toDateInputValue(today) || lastDay === toDateInputValue(yesterday) ? run : 0;
+    return { current, longest };
+}
+
+/**
+ * Counts how often each emotion tag is used.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @param {number} limit - The maximum number of emotions to return.
+ * @returns {{ emotion: string; count: number }[]} The most common emotions, most frequent first.
+ */
+export function countEmotions(entries: DiaryEntry[], limit: number): { emotion: string; count: number }[] {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => (entry.emotions || []).forEach(emotion => counts.set(emotion, (counts.get(emotion) || 0) + 1)));
+    return [...counts.entries()]
+        .map(([emotion, count]) => ({ emotion, count }))
+        .sort((a, b) => b.count - a.count || a.emotion.localeCompare(b.emotion))
+        .slice(0, limit);
+}
+
+/**
+ * Draws the average mood per period as an inline SVG line chart.
+ * @param {PeriodAverage[]} averages - The averages, oldest first.
+ * @returns {string} The SVG markup.
+ */
+export function renderMoodChartSvg(averages: PeriodAverage[]): string {
+    const width = 600;
+    const height = 220;
+    const padding = { top: 16, right: 16, bottom: 32, left: 36 };
+    const plotWidth = width - padding.left - padding.right;
+    const plotHeight = height - padding.top - padding.bottom;
+    const x = (index: number) => padding.left + (averages.length === 1 ? plotWidth / 2 : (index / (averages.length - 1)) * plotWidth);
+    const y = (score: number) => padding.top + ((5 - score) / 4) * plotHeight;
+
+    const gridLines = MOOD_LEVELS.map(level => `
+        <line x1="${padding.left}" x2="${width - padding.right}" y1="${y(level.score)}" y2="${y(level.score)}" class="chart-grid" />
+        <text x="${padding.left - 8}" y="${y(level.score) + 5}" class="chart-axis-label" text-anchor="end">${level.emoji}</text>
+    `).join('');
+
+    // Label at most ~8 periods so the axis stays readable
+    const labelEvery = Math.max(1, Math.ceil(averages.length / 8));
+    const points = averages.map((period, index) => `${x(index)},${y(period.average)}`).join(' ');
+    const dots = averages.map((period, index) => `
+        <circle cx="${x(index)}" cy="${y(period.average)}" r="4" class="chart-point">
+            <title>${period.label}: ${period.average.toFixed(1)} (${period.count} ${period.count === 1 ? 'entry' : 'entries'})</title>
+        </circle>
+        ${index % labelEvery === 0 ? `<text x="${x(index)}" y="${height - 10}" class="chart-axis-label" text-anchor="middle">${period.label}</text>` : ''}
+    `).join('');
+
+    return `
+        <svg class="mood-chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Average mood over time">
+            ${gridLines}
+            <polyline points="${points}" class="chart-line" />
+            ${dots}
+        </svg>
+    `;
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry, Review } from "../types";
+import { compareEntriesChronologically, parseDateInputValue, toDateInputValue } from "../utils/dates";
+import { hashContent } from "../services/embeddings";
+import { periodStart } from "./insights";
+
+export interface ReviewPeriod {
+    period: Review['period'];
+    start: string; // YYYY-MM-DD
+    end: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Finds the last day of a week or month.
+ * @param {string} start - The YYYY-MM-DD first day of the period.
+ * @param {Review['period']} period - The period size.
+ * @returns {string} The YYYY-MM-DD last day.
+ */
+function periodEnd(start: string, period: Review['period']): string {
+    const date = parseDateInputValue(start);
+    if (period === 'month') {
+        date.setMonth(date.getMonth() + 1, 0);
+    } else {
+        date.setDate(date.getDate() + 6);
+    }
+    return toDateInputValue(date);
+}
+
+/**
+ * Lists the weeks or months that have at least one active entry.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @param {Review['period']} period - The period size.
+ * @returns {ReviewPeriod[]} The periods, most recent first.
+ */
+export function listReviewPeriods(entries: DiaryEntry[], period: Review['period']): ReviewPeriod[] {
+    const starts = new Set(entries.filter(e => e.status === 'active').map(e => periodStart(e.entryDate, period)));
+    return [...starts]
+        .sort((a, b) => b.localeCompare(a))
+        .map(start => ({ period, start, end: periodEnd(start, period) }));
+}
+
+/**
+ * Finds the active entries in a period.
+ * @param {DiaryEntry[]} entries - The entries.
+ * @param {ReviewPeriod} reviewPeriod - The period.
+ * @returns {DiaryEntry[]} The entries, oldest first.
+ */
+export function getEntriesInPeriod(entries: DiaryEntry[], reviewPeriod: ReviewPeriod): DiaryEntry[] {
+    return entries
+        .filter(e => e.status === 'active' && e.entryDate >= reviewPeriod.start && e.entryDate <= reviewPeriod.end)
+        .sort(compareEntriesChronologically);
+}
+
+/**
+ * Fingerprints the entries a review covers: which entries they are and when each was last edited.
+ * @param {DiaryEntry[]} periodEntries - The entries in the period.
+ * @returns {string} The fingerprint.
+ */
+export function getReviewSourceHash(periodEntries: DiaryEntry[]): string {
+    return hashContent(periodEntries.map(entry => `${entry.id}:${entry.updatedAt}`).sort().join('|'));
+}
+
+/**
+ * Describes a period for headings and prompts.
+ * @param {ReviewPeriod} reviewPeriod - The period.
+ * @returns {string} e.g. "Week of Oct 12, 2026" or "October 2026".
+ */
+export function formatReviewPeriod(reviewPeriod: ReviewPeriod): string {
+    const start = parseDateInputValue(reviewPeriod.start);
+    if (reviewPeriod.period === 'month') {
+        return start.toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+    }
+    return `Week of ${start.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}`;
+}
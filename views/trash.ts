@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DiaryEntry } from "../types";
+
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0]; // Days; 0 keeps trashed entries until deleted by hand
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Finds the trashed entries that have been in the trash longer than the retention period.
+ * Entries without a trashedAt (trashed before it was recorded) never expire here; see purgeExpiredTrash.
+ * @param {DiaryEntry[]} entries - All entries.
+ * @param {number} retentionDays - The retention period, or 0 to keep everything.
+ * @param {number} now - The current time.
+ * @returns {number[]} The IDs of the expired entries.
+ */
+export function findExpiredTrash(entries: DiaryEntry[], retentionDays: number, now: number): number[] {
+    if (retentionDays <= 0) return [];
+    return entries
+        .filter(e => e.status === 'trashed' && e.trashedAt && now - Date.parse(e.trashedAt) >= retentionDays * DAY_MS)
+        .map(e => e.id);
+}
+
+/**
+ * Counts the days until a trashed entry is deleted automatically.
+ * @param {DiaryEntry} entry - The trashed entry.
+ * @param {number} retentionDays - The retention period, or 0 to keep everything.
+ * @param {number} now - The current time.
+ * @returns {number | null} Whole days left (at least 0), or null if the entry won't be deleted automatically.
+ */
+export function daysUntilPurge(entry: DiaryEntry, retentionDays: number, now: number): number | null {
+    if (retentionDays <= 0 || !entry.trashedAt) return null;
+    return Math.max(0, Math.ceil((Date.parse(entry.trashedAt) + retentionDays * DAY_MS - now) / DAY_MS));
+}
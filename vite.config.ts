@@ -1,9 +1,53 @@
+/// <reference types="vitest/config" />
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+/**
+ * Emits sw.js with the list of files to precache: everything in the build plus the public
+ * directory. The version is a hash of their contents, so any change installs a new worker.
+ */
+function serviceWorker(): Plugin {
+    const publicDir = path.resolve(__dirname, 'public');
+    const listFiles = (dir: string): string[] => fs.readdirSync(dir, { withFileTypes: true }).flatMap(item => {
+        const itemPath = path.join(dir, item.name);
+        return item.isDirectory() ? listFiles(itemPath) : [path.relative(publicDir, itemPath).split(path.sep).join('/')];
+    });
+
+    return {
+        name: 'service-worker',
+        apply: 'build',
+        enforce: 'post',
+        generateBundle(_, bundle) {
+            const hash = createHash('sha256');
+            const files = Object.values(bundle).map(output => {
+                hash.update(output.fileName);
+                hash.update(output.type === 'chunk' ? output.code : output.source);
+                return output.fileName;
+            });
+            const publicFiles = fs.existsSync(publicDir) ? listFiles(publicDir) : [];
+            publicFiles.forEach(file => {
+                hash.update(file);
+                hash.update(fs.readFileSync(path.join(publicDir, file)));
+            });
+
+            const manifest = {
+                version: hash.digest('hex').slice(0, 12),
+                // index.html is cached as the app shell at './'
+                urls: ['./', ...[...files, ...publicFiles].filter(file => file !== 'index.html' && !file.endsWith('.map')).map(file => `./${file}`)],
+            };
+            const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+                .replace('self.__PRECACHE_MANIFEST', JSON.stringify(manifest));
+            this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+        },
+    };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -12,6 +56,11 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // Headless DOM and IndexedDB, so services run as they do in the browser
+        environment: 'happy-dom',
+        setupFiles: ['./vitest.setup.ts'],
       }
     };
 });
@@ -0,0 +1,5 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import 'fake-indexeddb/auto';